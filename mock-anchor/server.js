@@ -0,0 +1,252 @@
+/**
+ * Minimal SEP-1/10/24 anchor for exercising the Deposit / Withdraw screen
+ * against the local quickstart network. Not an anchor implementation: KYC
+ * is a single confirm button, deposits complete on their own, and no funds
+ * are ever sent. Withdrawals complete once a payment to the issuer with the
+ * expected memo shows up on Horizon.
+ *
+ *   ASSET_ISSUER=G... npm run mock-anchor
+ *
+ * Environment: PORT (8080), ASSET_CODE (CETES), ASSET_ISSUER (required for
+ * withdrawals), HORIZON_URL (http://localhost:8000), NETWORK_PASSPHRASE
+ * (standalone network).
+ */
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Keypair, Networks, WebAuth } from 'stellar-sdk';
+
+const PORT = Number(process.env.PORT ?? 8080);
+const DOMAIN = `localhost:${PORT}`;
+const BASE_URL = `http://${DOMAIN}`;
+const ASSET_CODE = process.env.ASSET_CODE ?? 'CETES';
+const ASSET_ISSUER = process.env.ASSET_ISSUER ?? Keypair.random().publicKey();
+const HORIZON_URL = process.env.HORIZON_URL ?? 'http://localhost:8000';
+const NETWORK_PASSPHRASE = process.env.NETWORK_PASSPHRASE ?? Networks.STANDALONE;
+const TOKEN_TTL_SECONDS = 3600;
+
+const signingKey = Keypair.random();
+/** token -> account */
+const sessions = new Map();
+/** id -> SEP-24 transaction */
+const transfers = new Map();
+
+const base64url = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/** Unsigned JWT: enough for the wallet to read `sub` and `exp`. */
+const issueToken = (account) => {
+  const now = Math.floor(Date.now() / 1000);
+  const token = [
+    base64url({ alg: 'none', typ: 'JWT' }),
+    base64url({ iss: `${BASE_URL}/auth`, sub: account, iat: now, exp: now + TOKEN_TTL_SECONDS }),
+    ''
+  ].join('.');
+  sessions.set(token, account);
+  return token;
+};
+
+const send = (res, status, body, contentType = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+  });
+  res.end(contentType === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+    });
+    req.on('end', () => {
+      if (req.headers['content-type']?.includes('application/json')) {
+        resolve(data ? JSON.parse(data) : {});
+      } else {
+        resolve(Object.fromEntries(new URLSearchParams(data)));
+      }
+    });
+  });
+
+const authorizedAccount = (req) =>
+  sessions.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+
+const stellarToml = () => `NETWORK_PASSPHRASE="${NETWORK_PASSPHRASE}"
+SIGNING_KEY="${signingKey.publicKey()}"
+WEB_AUTH_ENDPOINT="${BASE_URL}/auth"
+TRANSFER_SERVER_SEP0024="${BASE_URL}/sep24"
+
+[[CURRENCIES]]
+code="${ASSET_CODE}"
+issuer="${ASSET_ISSUER}"
+display_decimals=2
+name="Mock ${ASSET_CODE}"
+`;
+
+const interactivePage = (transfer) => `<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 24rem; margin: 2rem auto">
+<h1>Mock anchor</h1>
+<p>${transfer.kind === 'deposit' ? 'Deposit' : 'Withdraw'} ${ASSET_CODE}</p>
+<form method="post" action="${BASE_URL}/sep24/interactive?id=${transfer.id}">
+  <label>Amount <input name="amount" value="${transfer.amount_in ?? '10'}" /></label>
+  <button type="submit">Confirm</button>
+</form>
+</body></html>`;
+
+/** Moves deposits along one step per poll; withdrawals wait for the payment. */
+const advance = async (transfer) => {
+  if (transfer.kind === 'deposit') {
+    const next = { pending_external: 'pending_anchor', pending_anchor: 'completed' };
+    transfer.status = next[transfer.status] ?? transfer.status;
+    return;
+  }
+
+  if (transfer.status !== 'pending_user_transfer_start') {
+    return;
+  }
+  try {
+    const response = await fetch(
+      `${HORIZON_URL}/accounts/${ASSET_ISSUER}/transactions?order=desc&limit=50`
+    );
+    const { _embedded: page } = await response.json();
+    const paid = page?.records.some(
+      (record) => record.successful && record.memo === transfer.withdraw_memo
+    );
+    if (paid) {
+      transfer.status = 'completed';
+      transfer.amount_out = transfer.amount_in;
+    }
+  } catch (err) {
+    console.warn('Unable to check Horizon for the withdrawal payment', err.message);
+  }
+};
+
+const routes = {
+  'GET /.well-known/stellar.toml': (req, res) => send(res, 200, stellarToml(), 'text/plain'),
+
+  'GET /auth': (req, res, url) => {
+    const account = url.searchParams.get('account');
+    const transaction = WebAuth.buildChallengeTx(
+      signingKey,
+      account,
+      DOMAIN,
+      300,
+      NETWORK_PASSPHRASE,
+      DOMAIN
+    );
+    send(res, 200, { transaction, network_passphrase: NETWORK_PASSPHRASE });
+  },
+
+  'POST /auth': async (req, res) => {
+    const { transaction } = await readBody(req);
+    try {
+      const { clientAccountID } = WebAuth.readChallengeTx(
+        transaction,
+        signingKey.publicKey(),
+        NETWORK_PASSPHRASE,
+        DOMAIN,
+        DOMAIN
+      );
+      WebAuth.verifyChallengeTxSigners(
+        transaction,
+        signingKey.publicKey(),
+        NETWORK_PASSPHRASE,
+        [clientAccountID],
+        DOMAIN,
+        DOMAIN
+      );
+      send(res, 200, { token: issueToken(clientAccountID) });
+    } catch (err) {
+      send(res, 400, { error: err.message });
+    }
+  },
+
+  'GET /sep24/info': (req, res) => {
+    const asset = { enabled: true, min_amount: 1, max_amount: 10000, fee_fixed: 0 };
+    send(res, 200, { deposit: { [ASSET_CODE]: asset }, withdraw: { [ASSET_CODE]: asset } });
+  },
+
+  'GET /sep24/transaction': async (req, res, url) => {
+    const transfer = transfers.get(url.searchParams.get('id'));
+    if (!authorizedAccount(req) || !transfer || transfer.account !== authorizedAccount(req)) {
+      send(res, 404, { error: 'transaction not found' });
+      return;
+    }
+    await advance(transfer);
+    const { account, ...visible } = transfer;
+    send(res, 200, { transaction: visible });
+  },
+
+  'GET /sep24/interactive': (req, res, url) => {
+    const transfer = transfers.get(url.searchParams.get('id'));
+    send(res, transfer ? 200 : 404, transfer ? interactivePage(transfer) : 'Not found', 'text/html');
+  },
+
+  'POST /sep24/interactive': async (req, res, url) => {
+    const transfer = transfers.get(url.searchParams.get('id'));
+    if (!transfer) {
+      send(res, 404, 'Not found', 'text/html');
+      return;
+    }
+    const { amount } = await readBody(req);
+    transfer.amount_in = amount;
+    transfer.amount_fee = '0';
+    if (transfer.kind === 'deposit') {
+      transfer.status = 'pending_external';
+      transfer.amount_out = amount;
+    } else {
+      transfer.status = 'pending_user_transfer_start';
+      transfer.withdraw_anchor_account = ASSET_ISSUER;
+      transfer.withdraw_memo_type = 'text';
+      transfer.withdraw_memo = transfer.id.slice(0, 28);
+    }
+    send(res, 200, '<p>Done. You can close this window.</p>', 'text/html');
+  }
+};
+
+const startTransfer = (kind) => async (req, res) => {
+  const account = authorizedAccount(req);
+  if (!account) {
+    send(res, 403, { error: 'authentication required' });
+    return;
+  }
+  const body = await readBody(req);
+  if (body.asset_code !== ASSET_CODE) {
+    send(res, 400, { error: `unsupported asset ${body.asset_code}` });
+    return;
+  }
+
+  const id = randomUUID();
+  transfers.set(id, { id, kind, account, status: 'incomplete', amount_in: body.amount });
+  send(res, 200, {
+    type: 'interactive_customer_info_needed',
+    url: `${BASE_URL}/sep24/interactive?id=${id}`,
+    id
+  });
+};
+
+routes['POST /sep24/transactions/deposit/interactive'] = startTransfer('deposit');
+routes['POST /sep24/transactions/withdraw/interactive'] = startTransfer('withdraw');
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204, '', 'text/plain');
+    return;
+  }
+  const url = new URL(req.url, BASE_URL);
+  const route = routes[`${req.method} ${url.pathname}`];
+  if (!route) {
+    send(res, 404, { error: 'not found' });
+    return;
+  }
+  try {
+    await route(req, res, url);
+  } catch (err) {
+    console.error(err);
+    send(res, 500, { error: err.message });
+  }
+}).listen(PORT, () => {
+  console.log(`Mock anchor on ${BASE_URL} (signing key ${signingKey.publicKey()})`);
+  console.log(`Asset ${ASSET_CODE}:${ASSET_ISSUER}`);
+});
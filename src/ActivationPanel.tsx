@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { StrKey } from 'stellar-sdk';
+
+import { ActivationRequirements, fetchActivationRequirements } from './accountActivation';
+import { decimalToUnits } from './amounts';
+import type { NetworkProfile } from './networks';
+import { formatStellarError } from './stellarMainnetExample';
+
+type ActivationPanelProps = {
+  network: NetworkProfile;
+  publicKey: string;
+  inFlight: boolean;
+  /** Unsigned envelope waiting for the sponsor's signature, if any. */
+  signatureRequest: string | null;
+  onFriendbot: () => void;
+  onSponsor: (sponsorPublicKey: string, startingBalance: string) => void;
+  onSigned: (signedXdr: string) => void;
+  onCancelSignature: () => void;
+  onError: (message: string) => void;
+};
+
+const STROOP_DECIMALS = 7;
+
+const ActivationPanel = ({
+  network,
+  publicKey,
+  inFlight,
+  signatureRequest,
+  onFriendbot,
+  onSponsor,
+  onSigned,
+  onCancelSignature,
+  onError
+}: ActivationPanelProps) => {
+  const [requirements, setRequirements] = useState<ActivationRequirements | null>(null);
+  const [sponsorKey, setSponsorKey] = useState('');
+  const [startingBalance, setStartingBalance] = useState('');
+  const [signedXdr, setSignedXdr] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setRequirements(null);
+    fetchActivationRequirements(network, network.activationAssets.length)
+      .then((loaded) => {
+        if (!cancelled) {
+          setRequirements(loaded);
+          setStartingBalance(loaded.recommendedBalance);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          onError(formatStellarError(err, 'Unable to load the activation requirements.'));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [network, onError]);
+
+  useEffect(() => {
+    setSignedXdr('');
+  }, [signatureRequest]);
+
+  const handleSponsor = () => {
+    const sponsor = sponsorKey.trim();
+    if (!StrKey.isValidEd25519PublicKey(sponsor)) {
+      onError('Enter the sponsor account public key (G...).');
+      return;
+    }
+    if (sponsor === publicKey) {
+      onError('The sponsor must be a different, already funded account.');
+      return;
+    }
+    try {
+      const units = decimalToUnits(startingBalance, STROOP_DECIMALS);
+      if (requirements && units < decimalToUnits(requirements.minimumBalance, STROOP_DECIMALS)) {
+        onError(`The starting balance must be at least ${requirements.minimumBalance} XLM.`);
+        return;
+      }
+    } catch (err) {
+      onError(formatStellarError(err, 'Check the starting balance.'));
+      return;
+    }
+
+    onSponsor(sponsor, startingBalance.trim());
+  };
+
+  const trustlineCodes = network.activationAssets.map((asset) => asset.code);
+
+  return (
+    <div className="activation-card">
+      <h2>Activate your account</h2>
+      <p>
+        This account does not exist on {network.name} yet. Stellar accounts are created by
+        sending them a minimum balance of XLM, which stays locked as a reserve
+        {requirements
+          ? ` (${requirements.baseReserve} XLM per base reserve; ${requirements.minimumBalance} XLM in total for this wallet).`
+          : '.'}
+      </p>
+      {trustlineCodes.length > 0 && (
+        <p className="field-hint">
+          Once funded, trustlines for {trustlineCodes.join(', ')} are opened automatically; each
+          one adds a base reserve.
+        </p>
+      )}
+
+      {network.friendbotUrl && (
+        <div className="activation-option">
+          <h3>Fund from Friendbot</h3>
+          <button type="button" className="primary" onClick={onFriendbot} disabled={inFlight}>
+            {inFlight ? 'Funding…' : 'Fund with Friendbot'}
+          </button>
+        </div>
+      )}
+
+      <div className="activation-option">
+        <h3>Fund from another account</h3>
+        {signatureRequest ? (
+          <>
+            <div className="input-group">
+              <label htmlFor="sponsor-unsigned">Transaction to sign</label>
+              <textarea id="sponsor-unsigned" readOnly rows={4} value={signatureRequest} />
+            </div>
+            <div className="input-group">
+              <label htmlFor="sponsor-signed">Signed transaction</label>
+              <textarea
+                id="sponsor-signed"
+                rows={4}
+                placeholder="Paste the signed XDR"
+                value={signedXdr}
+                onChange={(e) => setSignedXdr(e.currentTarget.value)}
+              />
+            </div>
+            <div className="field-row">
+              <button
+                type="button"
+                className="primary"
+                onClick={() => onSigned(signedXdr.trim())}
+                disabled={!signedXdr.trim()}
+              >
+                Submit Signed Transaction
+              </button>
+              <button type="button" className="secondary" onClick={onCancelSignature}>
+                Cancel
+              </button>
+            </div>
+            <p className="note">
+              Sign this transaction with the sponsor's own wallet (for example a hardware wallet or
+              Stellar Laboratory) and paste the signed XDR back here.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="input-group">
+              <label htmlFor="sponsor-key">Sponsor public key</label>
+              <input
+                id="sponsor-key"
+                type="text"
+                placeholder="G..."
+                value={sponsorKey}
+                onChange={(e) => setSponsorKey(e.currentTarget.value)}
+              />
+            </div>
+            <div className="input-group">
+              <label htmlFor="starting-balance">Starting balance (XLM)</label>
+              <input
+                id="starting-balance"
+                type="text"
+                value={startingBalance}
+                onChange={(e) => setStartingBalance(e.currentTarget.value)}
+              />
+            </div>
+            <button
+              type="button"
+              className="primary"
+              onClick={handleSponsor}
+              disabled={inFlight || !sponsorKey.trim() || !startingBalance.trim()}
+            >
+              {inFlight ? 'Activating…' : 'Create Account'}
+            </button>
+            <p className="note">
+              The sponsor signs in their own wallet; their secret key never enters this app. The
+              sponsor pays the starting balance and the fee.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivationPanel;
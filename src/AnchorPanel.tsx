@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { NetworkProfile } from './networks';
+import {
+  AnchorSession,
+  Sep24Kind,
+  Sep24Status,
+  Sep24Transaction,
+  connectAnchor,
+  startInteractiveTransfer,
+  watchTransfer
+} from './sep24';
+import type { Signer } from './signer';
+import { formatStellarError } from './stellarMainnetExample';
+
+type AnchorPanelProps = {
+  network: NetworkProfile;
+  signer: Signer;
+  disabled: boolean;
+  inFlight: boolean;
+  /** Sends the payment a withdrawal is waiting for; resolves `true` once it is submitted. */
+  onSendWithdrawal: (
+    session: AnchorSession,
+    assetCode: string,
+    transaction: Sep24Transaction
+  ) => Promise<boolean>;
+  onError: (message: string) => void;
+};
+
+type Transfer = {
+  id: string;
+  kind: Sep24Kind;
+  assetCode: string;
+  transaction?: Sep24Transaction;
+  /**
+   * Our side of a withdrawal. The anchor keeps asking for the payment until
+   * it notices it, so this is what stops it from being sent twice.
+   */
+  payment?: 'sending' | 'sent';
+};
+
+const STATUS_LABELS: Partial<Record<Sep24Status, string>> = {
+  incomplete: 'Waiting for you to finish on the anchor site',
+  pending_user_transfer_start: 'Waiting for your payment',
+  pending_user_transfer_complete: 'Payment received by the anchor',
+  pending_external: 'Processing with the bank',
+  pending_anchor: 'Processing by the anchor',
+  pending_stellar: 'Settling on Stellar',
+  pending_trust: 'Waiting for a trustline',
+  pending_user: 'Action required on the anchor site',
+  completed: 'Completed',
+  refunded: 'Refunded',
+  expired: 'Expired',
+  error: 'Failed'
+};
+
+const AnchorPanel = ({
+  network,
+  signer,
+  disabled,
+  inFlight,
+  onSendWithdrawal,
+  onError
+}: AnchorPanelProps) => {
+  const [homeDomain, setHomeDomain] = useState(network.anchorDomain ?? '');
+  const [session, setSession] = useState<AnchorSession | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [kind, setKind] = useState<Sep24Kind>('deposit');
+  const [assetCode, setAssetCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const stopWatchers = useRef<Array<() => void>>([]);
+
+  useEffect(
+    () => () => {
+      stopWatchers.current.forEach((stop) => stop());
+      stopWatchers.current = [];
+    },
+    []
+  );
+
+  const assetCodes = session
+    ? Object.entries(session.info[kind])
+        .filter(([, details]) => details.enabled)
+        .map(([code]) => code)
+    : [];
+  const selectedCode = assetCodes.includes(assetCode) ? assetCode : assetCodes[0] ?? '';
+  const limits = session && selectedCode ? session.info[kind][selectedCode] : undefined;
+
+  const updateTransfer = (id: string, update: Partial<Transfer>) =>
+    setTransfers((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...update } : entry)));
+
+  const handleConnect = async () => {
+    setConnecting(true);
+    try {
+      setSession(await connectAnchor(network, signer, homeDomain.trim()));
+    } catch (err) {
+      onError(formatStellarError(err, 'Unable to connect to the anchor. Inspect console for details.'));
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!session || !selectedCode) {
+      return;
+    }
+
+    // Opened before the request so the browser treats it as user-initiated.
+    const popup = window.open('', '_blank');
+    try {
+      const response = await startInteractiveTransfer(
+        session,
+        kind,
+        selectedCode,
+        amount.trim() || undefined
+      );
+      if (popup) {
+        popup.location.href = response.url;
+      } else {
+        window.open(response.url, '_blank');
+      }
+
+      setTransfers((prev) => [{ id: response.id, kind, assetCode: selectedCode }, ...prev]);
+      stopWatchers.current.push(
+        watchTransfer(
+          session,
+          response.id,
+          (transaction) => updateTransfer(response.id, { transaction }),
+          (err) => console.warn(`Unable to check transfer ${response.id}`, err)
+        )
+      );
+    } catch (err) {
+      popup?.close();
+      onError(formatStellarError(err, `Unable to start the ${kind}. Inspect console for details.`));
+    }
+  };
+
+  const handleSendWithdrawal = async (transfer: Transfer, transaction: Sep24Transaction) => {
+    if (!session || transfer.payment) {
+      return;
+    }
+    updateTransfer(transfer.id, { payment: 'sending' });
+    const sent = await onSendWithdrawal(session, transfer.assetCode, transaction);
+    updateTransfer(transfer.id, { payment: sent ? 'sent' : undefined });
+  };
+
+  return (
+    <div className="action-card anchor-panel">
+      <h3>Deposit / Withdraw</h3>
+      {!session ? (
+        <>
+          <p className="note">
+            Move money between your bank and Stellar through a SEP-24 anchor. You prove control of
+            this account by signing a login challenge; nothing is submitted to the network.
+          </p>
+          <div className="input-group">
+            <label htmlFor="anchor-domain">Anchor home domain</label>
+            <div className="field-row">
+              <input
+                id="anchor-domain"
+                type="text"
+                placeholder="anchor.example.com"
+                value={homeDomain}
+                onChange={(e) => setHomeDomain(e.currentTarget.value)}
+              />
+              <button
+                type="button"
+                className="primary"
+                onClick={handleConnect}
+                disabled={disabled || connecting || !homeDomain.trim()}
+              >
+                {connecting ? 'Connecting…' : 'Connect'}
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="metrics-header">
+            <span>Connected to {session.homeDomain}</span>
+            <button type="button" className="secondary" onClick={() => setSession(null)}>
+              Disconnect
+            </button>
+          </div>
+          <div className="field-row">
+            <select
+              aria-label="Transfer type"
+              value={kind}
+              onChange={(e) => setKind(e.currentTarget.value as Sep24Kind)}
+            >
+              <option value="deposit">Deposit</option>
+              <option value="withdraw">Withdraw</option>
+            </select>
+            <select
+              aria-label="Asset"
+              value={selectedCode}
+              onChange={(e) => setAssetCode(e.currentTarget.value)}
+              disabled={assetCodes.length === 0}
+            >
+              {assetCodes.length === 0 && <option value="">No assets available</option>}
+              {assetCodes.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="input-group">
+            <label htmlFor="anchor-amount">Amount (optional)</label>
+            <input
+              id="anchor-amount"
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.currentTarget.value)}
+            />
+            {limits && (limits.min_amount !== undefined || limits.max_amount !== undefined) && (
+              <p className="field-hint">
+                Limits: {limits.min_amount ?? 0} – {limits.max_amount ?? '∞'} {selectedCode}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            className="primary"
+            onClick={handleStart}
+            disabled={disabled || !selectedCode}
+          >
+            {kind === 'deposit' ? 'Start Deposit' : 'Start Withdrawal'}
+          </button>
+        </>
+      )}
+
+      {transfers.length > 0 && (
+        <ul className="anchor-transfers">
+          {transfers.map((transfer) => {
+            const { transaction } = transfer;
+            const status = transaction?.status;
+            const awaitingPayment =
+              transfer.kind === 'withdraw' &&
+              status === 'pending_user_transfer_start' &&
+              transaction?.withdraw_anchor_account;
+
+            return (
+              <li key={transfer.id}>
+                <span className="queue-label">
+                  {transfer.kind === 'deposit' ? 'Deposit' : 'Withdrawal'} · {transfer.assetCode}
+                  {transaction?.amount_in ? ` · ${transaction.amount_in}` : ''}
+                </span>
+                <span className="queue-status">
+                  {status ? STATUS_LABELS[status] ?? status : 'Starting…'}
+                </span>
+                {transaction?.message && <span className="field-hint">{transaction.message}</span>}
+                {awaitingPayment && transfer.payment === 'sent' && (
+                  <span className="field-hint">
+                    Payment sent; waiting for the anchor to confirm it.
+                  </span>
+                )}
+                {awaitingPayment && session && transaction && transfer.payment !== 'sent' && (
+                  <button
+                    type="button"
+                    className="primary"
+                    onClick={() => void handleSendWithdrawal(transfer, transaction)}
+                    disabled={disabled || inFlight || transfer.payment === 'sending'}
+                  >
+                    Send {transaction.amount_in} {transfer.assetCode} to the anchor
+                  </button>
+                )}
+                {transaction?.more_info_url && (
+                  <a href={transaction.more_info_url} target="_blank" rel="noreferrer">
+                    Details
+                  </a>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnchorPanel;
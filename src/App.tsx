@@ -1,29 +1,183 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useLoginWithEmail, usePrivy } from '@privy-io/react-auth';
-import { Keypair } from 'stellar-sdk';
+import type { Memo } from 'stellar-sdk';
 import {
   sendAssetPaymentOnMainnet,
+  sendClaimableBalanceOnMainnet,
+  claimBalanceOnMainnet,
   sendPaymentOnMainnet,
+  sendPathPaymentOnMainnet,
   createTrustlineOnMainnet,
-  supplyOp,
-  withdrawalOp,
-  poolData,
+  createAccountOnMainnet,
+  removeTrustlineOnMainnet,
+  updateTrustlineLimitOnMainnet,
+  submitPoolRequests,
+  resubmitWithFeeBump,
+  checkTimedOutTransaction,
   fetchWalletBalances,
-  formatStellarError
+  PreparedTransaction,
+  TransactionRejectedError,
+  WalletBalance
 } from './stellarMainnetExample';
-
-const stellarSecret = import.meta.env.VITE_STELLAR_SECRET_KEY ?? '';
+import {
+  NETWORK_PROFILES,
+  NetworkId,
+  isMainnet,
+  loadStoredNetworkId,
+  persistNetworkId
+} from './networks';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  createKeystore,
+  loadKeystoreRecord,
+  unlockKeystore
+} from './keystore';
+import { Signer, createExternalSigner, createKeypairSigner } from './signer';
+import { TransactionSummary, describeTransaction } from './transactionReview';
+import TransactionReviewModal from './TransactionReviewModal';
+import HistoryPanel from './HistoryPanel';
+import { StreamStatus, subscribeToAccountActivity } from './balanceStream';
+import { PoolAction, buildPoolRequests, describePoolActions } from './blendRequests';
+import PoolActionsPanel from './PoolActionsPanel';
+import { PoolRegistryEntry, loadPoolRegistry } from './poolRegistry';
+import type { SorobanOutcome } from './sorobanTracker';
+import {
+  StellarError,
+  StuckTransactionError,
+  ValidationError,
+  fromSorobanOutcome,
+  toStellarError
+} from './stellarErrors';
+import ErrorNotice from './ErrorNotice';
+import {
+  FEE_LEVELS,
+  FeeEstimates,
+  FeeLevel,
+  fetchFeeEstimates,
+  loadStoredFeeLevel,
+  persistFeeLevel
+} from './feeStrategy';
+import FeeBumpPrompt from './FeeBumpPrompt';
+import {
+  QueueItem,
+  QueueItemSkippedError,
+  createTransactionQueue
+} from './transactionQueue';
+import TransactionQueuePanel from './TransactionQueuePanel';
+import {
+  fundWithFriendbot,
+  isUnfundedAccountError,
+  missingActivationTrustlines
+} from './accountActivation';
+import ActivationPanel from './ActivationPanel';
+import { PathQuote, assetCodeOf } from './pathPayments';
+import PathPaymentPanel from './PathPaymentPanel';
+import { assertAssetNotMismatched } from './assetVerification';
+import AssetPicker from './AssetPicker';
+import { AnchorSession, Sep24Transaction, withdrawalMemo } from './sep24';
+import AnchorPanel from './AnchorPanel';
+import { clearAuthTokens } from './webAuth';
+import {
+  EMPTY_MEMO,
+  MemoInput,
+  assertMemoProvided,
+  assertPaymentDestination,
+  baseAccountOf,
+  parseMemo
+} from './memos';
+import MemoFields from './MemoFields';
+import { Trustline, listTrustlines } from './trustlines';
+import TrustlinePanel from './TrustlinePanel';
+import PortfolioSummary from './PortfolioSummary';
+import {
+  EMPTY_YIELD_LOG,
+  SNAPSHOT_INTERVAL_MS,
+  YieldLog,
+  clearYieldLog,
+  loadYieldLog,
+  recordPendingPoolFlows,
+  recordPoolFlows,
+  recordYieldSnapshots,
+  settlePendingPoolFlows
+} from './yieldHistory';
+import YieldHistoryPanel from './YieldHistoryPanel';
+import {
+  DueRun,
+  EMPTY_SAVINGS,
+  SavingsPlan,
+  SavingsPlanDraft,
+  SavingsState,
+  approvePlanBatch,
+  collectDueRuns,
+  createSavingsPlan,
+  deleteSavingsPlan,
+  dueRunKey,
+  loadSavings,
+  pendingSubmissions,
+  planBatches,
+  resolvePendingRuns,
+  settleRuns,
+  updateSavingsPlan
+} from './savingsPlans';
+import SavingsPlansPanel from './SavingsPlansPanel';
+import {
+  ClaimTerms,
+  ClaimableBalance,
+  DEFAULT_CLAIM_TERMS,
+  checkDirectDelivery,
+  listClaimableBalances
+} from './claimableBalances';
+import ClaimableSendOptions from './ClaimableSendOptions';
+import ClaimableBalancesPanel from './ClaimableBalancesPanel';
+import {
+  delegatePublicKey,
+  enableDelegatedSigner,
+  loadDelegatedSigner,
+  revokeDelegatedSigner
+} from './delegatedSigner';
+import { formatStroops } from './transactionReview';
 
 type WalletDetails = {
   publicKey: string;
-  secretKey: string;
+  signer: Signer;
+};
+
+/** `unavailable` when browser storage cannot be read at all (e.g. IndexedDB blocked). */
+type KeystoreStatus = 'checking' | 'missing' | 'locked' | 'unlocked' | 'unavailable';
+
+type Toast = {
+  id: string;
+  message: string;
+};
+
+type PendingReview = {
+  summary: TransactionSummary;
+  resolve: (approved: boolean) => void;
+};
+
+/** An envelope handed to a signer outside the app, waiting to be pasted back signed. */
+type PendingSignature = {
+  transactionXdr: string;
+  resolve: (signedXdr: string) => void;
+  reject: (error: Error) => void;
 };
 
 const App = () => {
   const { ready, authenticated, user, logout } = usePrivy();
   const { sendCode, loginWithCode } = useLoginWithEmail();
   const [wallet, setWallet] = useState<WalletDetails | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [networkId, setNetworkId] = useState<NetworkId>(loadStoredNetworkId);
+  const [feeLevel, setFeeLevel] = useState<FeeLevel>(loadStoredFeeLevel);
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates | null>(null);
+  const [keystoreStatus, setKeystoreStatus] = useState<KeystoreStatus>('checking');
+  const [lockedPublicKey, setLockedPublicKey] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [keystoreInFlight, setKeystoreInFlight] = useState(false);
+  const [revealPassphrase, setRevealPassphrase] = useState('');
+  const [revealPromptOpen, setRevealPromptOpen] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | StellarError | null>(null);
   const [info, setInfo] = useState<string | null>(null);
   const [email, setEmail] = useState('');
   const [code, setCode] = useState('');
@@ -32,87 +186,226 @@ const App = () => {
   const [logoutInFlight, setLogoutInFlight] = useState(false);
   const [nativeDestination, setNativeDestination] = useState('');
   const [nativeAmount, setNativeAmount] = useState('');
+  const [nativeMemo, setNativeMemo] = useState<MemoInput>(EMPTY_MEMO);
   const [assetDestination, setAssetDestination] = useState('');
   const [assetCode, setAssetCode] = useState('');
   const [assetIssuer, setAssetIssuer] = useState('');
   const [assetAmount, setAssetAmount] = useState('');
+  const [assetMemo, setAssetMemo] = useState<MemoInput>(EMPTY_MEMO);
+  const [assetClaimTerms, setAssetClaimTerms] = useState<ClaimTerms>(DEFAULT_CLAIM_TERMS);
+  const [assetClaimConfirmed, setAssetClaimConfirmed] = useState(false);
   const [trustAssetCode, setTrustAssetCode] = useState('');
   const [trustAssetIssuer, setTrustAssetIssuer] = useState('');
   const [trustLimit, setTrustLimit] = useState('');
-  const [supplyPoolId, setSupplyPoolId] = useState('');
-  const [supplyAsset, setSupplyAsset] = useState('');
-  const [supplyAmount, setSupplyAmount] = useState('');
-  const [withdrawPoolId, setWithdrawPoolId] = useState('');
-  const [withdrawAsset, setWithdrawAsset] = useState('');
-  const [withdrawAmount, setWithdrawAmount] = useState('');
-  const [operationInFlight, setOperationInFlight] = useState<
-    'native' | 'asset' | 'trust' | 'supply' | 'withdraw' | null
-  >(null);
-  const [poolInfo, setPoolInfo] = useState<string>('');
-  const [poolMetrics, setPoolMetrics] = useState<
-    { totalSupplied: number; netApy: number; supplyApy: number } | null
-  >(null);
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [pools, setPools] = useState<PoolRegistryEntry[]>([]);
   const [poolDataInFlight, setPoolDataInFlight] = useState(false);
-  const [showPoolDetails, setShowPoolDetails] = useState(false);
-  const [walletBalances, setWalletBalances] = useState<
-    { assetType: string; assetCode?: string; assetIssuer?: string; balance: string; liquidityPoolId?: string }[]
-  >([]);
+  const [rawPoolId, setRawPoolId] = useState<string | null>(null);
+  const [yieldLog, setYieldLog] = useState<YieldLog>(EMPTY_YIELD_LOG);
+  const [savings, setSavings] = useState<SavingsState>(EMPTY_SAVINGS);
+  /** Due savings runs waiting for the user's approval. */
+  const [dueRuns, setDueRuns] = useState<DueRun[]>([]);
+  /** `dueRunKey`s of savings runs whose batch is being submitted. */
+  const savingsInFlight = useRef(new Set<string>());
+  const [delegateKey, setDelegateKey] = useState<string | null>(null);
+  const [walletBalances, setWalletBalances] = useState<WalletBalance[]>([]);
+  const [claimableBalances, setClaimableBalances] = useState<ClaimableBalance[]>([]);
   const [balancesInFlight, setBalancesInFlight] = useState(false);
+  /** `false` once Horizon reports the account as not created yet; `null` until known. */
+  const [accountFunded, setAccountFunded] = useState<boolean | null>(null);
+  const [activationInFlight, setActivationInFlight] = useState(false);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [pendingSignature, setPendingSignature] = useState<PendingSignature | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const network = NETWORK_PROFILES[networkId];
+  const hasPools = network.blendPoolIds.length > 0;
 
   const formatNumber = (value: number) =>
     value.toLocaleString(undefined, { maximumFractionDigits: 4 });
   const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
+  const privyUserId = user?.id ?? null;
+
   useEffect(() => {
-    if (!ready || !authenticated || wallet) {
+    if (!ready || !authenticated || !privyUserId || wallet) {
       return;
     }
 
     let cancelled = false;
 
-    const provisionWallet = async () => {
-      setInfo('Provisioning your Stellar wallet...');
-      setError(null);
-
-      if (cancelled) {
-        return;
-      }
-
-      if (!stellarSecret) {
-        setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
-        setInfo(null);
-        return;
-      }
-
+    const lookupKeystore = async () => {
+      setKeystoreStatus('checking');
       try {
-        const keypair = Keypair.fromSecret(stellarSecret);
-        console.log('Key from file:', {
-          publicKey: keypair.publicKey(),
-          secretKey: keypair.secret()
-        });
-        setWallet({
-          publicKey: keypair.publicKey(),
-          secretKey: keypair.secret()
-        });
-        setInfo('Local Stellar wallet created.');
+        const record = await loadKeystoreRecord(privyUserId);
+        if (cancelled) {
+          return;
+        }
+        setLockedPublicKey(record?.publicKey ?? null);
+        setKeystoreStatus(record ? 'locked' : 'missing');
       } catch (err) {
-        console.error('Unable to create fallback Stellar wallet', err);
-        setError('Unable to create a Stellar wallet. Please retry.');
+        console.error('Unable to read the local keystore', err);
+        if (!cancelled) {
+          setKeystoreStatus('unavailable');
+          setError('Unable to access wallet storage in this browser.');
+        }
       }
     };
 
-    provisionWallet();
+    void lookupKeystore();
 
     return () => {
       cancelled = true;
     };
-  }, [ready, authenticated, wallet, stellarSecret]);
+  }, [ready, authenticated, privyUserId, wallet]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFeeEstimates(null);
+    fetchFeeEstimates(network)
+      .then((estimates) => {
+        if (!cancelled) {
+          setFeeEstimates(estimates);
+        }
+      })
+      .catch((err) => console.warn('Unable to load fee stats', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+
+  const pushToast = useCallback((message: string) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    setToasts((prev) => [...prev, { id, message }]);
+    setTimeout(() => {
+      setToasts((prev) => prev.filter((toast) => toast.id !== id));
+    }, 6000);
+  }, []);
+
+  const lockWallet = useCallback(() => {
+    // Reject any open review so the pending operation unwinds without signing.
+    setPendingReview((current) => {
+      current?.resolve(false);
+      return null;
+    });
+    setPendingSignature((current) => {
+      current?.reject(new TransactionRejectedError());
+      return null;
+    });
+    setWallet(null);
+    clearAuthTokens();
+    setToasts([]);
+    setRevealedSecret(null);
+    setRevealPromptOpen(false);
+    setRevealPassphrase('');
+    setPassphrase('');
+    setPassphraseConfirm('');
+  }, []);
 
   useEffect(() => {
     if (!authenticated) {
-      setWallet(null);
+      lockWallet();
+      setLockedPublicKey(null);
+      setKeystoreStatus('checking');
+    }
+  }, [authenticated, lockWallet]);
+
+  const handleCreateWallet = async () => {
+    if (!privyUserId) {
+      return;
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Choose a passphrase with at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setError(null);
+    setInfo('Generating and encrypting your Stellar wallet...');
+    setKeystoreInFlight(true);
+    try {
+      const keypair = await createKeystore(privyUserId, passphrase);
+      setWallet({ publicKey: keypair.publicKey(), signer: createKeypairSigner(keypair) });
+      setKeystoreStatus('unlocked');
+      setInfo('Stellar wallet created and stored encrypted in this browser.');
+    } catch (err) {
+      console.error('Unable to create Stellar wallet');
+      setInfo(null);
+      setError(toStellarError(err, 'Unable to create a Stellar wallet. Please retry.'));
+    } finally {
+      setPassphrase('');
+      setPassphraseConfirm('');
+      setKeystoreInFlight(false);
     }
-  }, [authenticated]);
+  };
+
+  const handleUnlockWallet = async () => {
+    if (!privyUserId) {
+      return;
+    }
+    if (!passphrase) {
+      setError('Enter your wallet passphrase to unlock.');
+      return;
+    }
+
+    setError(null);
+    setInfo('Unlocking your Stellar wallet...');
+    setKeystoreInFlight(true);
+    try {
+      const keypair = await unlockKeystore(privyUserId, passphrase);
+      setWallet({ publicKey: keypair.publicKey(), signer: createKeypairSigner(keypair) });
+      setKeystoreStatus('unlocked');
+      setInfo('Wallet unlocked for this session.');
+    } catch (err) {
+      setInfo(null);
+      setError(toStellarError(err, 'Unable to unlock your wallet. Please retry.'));
+    } finally {
+      setPassphrase('');
+      setKeystoreInFlight(false);
+    }
+  };
+
+  const handleLockWallet = () => {
+    lockWallet();
+    setKeystoreStatus('locked');
+    setInfo('Wallet locked.');
+  };
+
+  const handleRevealSecret = async () => {
+    if (!privyUserId || !wallet) {
+      return;
+    }
+
+    setError(null);
+    setKeystoreInFlight(true);
+    try {
+      // Re-derive from storage rather than trusting the session keypair, so the
+      // reveal always requires the passphrase.
+      const keypair = await unlockKeystore(privyUserId, revealPassphrase);
+      setRevealedSecret(keypair.secret());
+      setRevealPromptOpen(false);
+    } catch (err) {
+      setError(toStellarError(err, 'Unable to verify your passphrase.'));
+    } finally {
+      setRevealPassphrase('');
+      setKeystoreInFlight(false);
+    }
+  };
+
+  const handleNetworkChange = (nextNetworkId: NetworkId) => {
+    persistNetworkId(nextNetworkId);
+    setNetworkId(nextNetworkId);
+    setPools([]);
+    setRawPoolId(null);
+    setYieldLog(EMPTY_YIELD_LOG);
+    setWalletBalances([]);
+    setError(null);
+    setInfo(`Switched to ${NETWORK_PROFILES[nextNetworkId].name}.`);
+  };
 
   const handleSendCode = async () => {
     if (!email.trim()) {
@@ -128,7 +421,7 @@ const App = () => {
       setInfo('Code sent! Check your inbox for the verification email.');
     } catch (err) {
       console.error('Unable to send verification code', err);
-      setError(formatStellarError(err, 'Unable to send a code. Double-check the email and try again.'));
+      setError(toStellarError(err, 'Unable to send a code. Double-check the email and try again.'));
     } finally {
       setSendCodeInFlight(false);
     }
@@ -147,7 +440,7 @@ const App = () => {
       await loginWithCode({ code });
     } catch (err) {
       console.error('Unable to log in with verification code', err);
-      setError(formatStellarError(err, 'Unable to log in. Verify the code and try again.'));
+      setError(toStellarError(err, 'Unable to log in. Verify the code and try again.'));
     } finally {
       setLoginInFlight(false);
     }
@@ -164,25 +457,113 @@ const App = () => {
     setLogoutInFlight(true);
     try {
       await logout();
-      setWallet(null);
+      lockWallet();
       setCode('');
     } catch (err) {
       console.error('Unable to sign out', err);
-      setError(formatStellarError(err, 'Unable to sign out. Please retry.'));
+      setError(toStellarError(err, 'Unable to sign out. Please retry.'));
     } finally {
       setLogoutInFlight(false);
     }
   };
 
+  const reviewTransaction = useCallback(
+    (prepared: PreparedTransaction) =>
+      new Promise<boolean>((resolve) => {
+        setInfo('Review the transaction before signing.');
+        setPendingReview({ summary: describeTransaction(prepared, network), resolve });
+      }),
+    [network]
+  );
+
+  const settleReview = (approved: boolean) => {
+    if (approved) {
+      setInfo('Signing and submitting transaction…');
+    }
+    pendingReview?.resolve(approved);
+    setPendingReview(null);
+  };
+
+  const reportSorobanOutcome = useCallback((label: string, outcome: SorobanOutcome) => {
+    if (outcome.status === 'SUCCESS') {
+      setError(null);
+      setInfo(`${label} confirmed in ledger ${outcome.ledger} (tx ${outcome.hash}).`);
+      return;
+    }
+
+    if (outcome.status === 'TIMEOUT') {
+      setInfo(`${label} is still pending. Track tx ${outcome.hash} on a block explorer.`);
+      setError(
+        outcome.envelopeXdr
+          ? new StuckTransactionError('timeout', outcome.envelopeXdr, `Transaction ${outcome.hash}`)
+          : null
+      );
+      return;
+    }
+
+    setInfo(null);
+    setError(fromSorobanOutcome(label, outcome));
+  }, []);
+
   const disableLogout = !ready || (ready && !authenticated) || logoutInFlight;
-  const operationsDisabled = useMemo(
-    () => !stellarSecret || !wallet || operationInFlight !== null,
-    [stellarSecret, wallet, operationInFlight]
+  const operationsDisabled = !wallet || accountFunded === false;
+
+  const transactionQueue = useMemo(
+    () => (wallet ? createTransactionQueue(network, wallet.publicKey) : null),
+    [wallet, network]
+  );
+
+  useEffect(() => {
+    if (!transactionQueue) {
+      setQueueItems([]);
+      return;
+    }
+    const unsubscribe = transactionQueue.subscribe(setQueueItems);
+    return () => {
+      unsubscribe();
+      transactionQueue.cancelPending();
+    };
+  }, [transactionQueue]);
+
+  const queueBusy = queueItems.some((item) => item.status === 'queued' || item.status === 'running');
+
+  /**
+   * Runs a transaction job through the account's queue. Failures show up on
+   * the queue item and in the error banner; jobs skipped behind a failure
+   * stay quiet since the failure has already been reported. Resolves to
+   * whether the job succeeded.
+   */
+  const runQueued = useCallback(
+    async (label: string, job: () => Promise<void>, failureMessage: string): Promise<boolean> => {
+      if (!transactionQueue) {
+        setError('Unlock your wallet first.');
+        return false;
+      }
+
+      setError(null);
+      try {
+        await transactionQueue.enqueue(label, job);
+        return true;
+      } catch (err) {
+        if (err instanceof QueueItemSkippedError) {
+          return false;
+        }
+        if (err instanceof TransactionRejectedError) {
+          setInfo('Transaction rejected. Nothing was signed.');
+          return false;
+        }
+        console.error(`${label} failed`, err);
+        setInfo(null);
+        setError(toStellarError(err, failureMessage));
+        return false;
+      }
+    },
+    [transactionQueue]
   );
 
   const handleSendNative = async () => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
     if (!nativeDestination.trim() || !nativeAmount.trim()) {
@@ -190,24 +571,37 @@ const App = () => {
       return;
     }
 
-    setError(null);
-    setInfo('Submitting XLM payment to Horizon…');
-    setOperationInFlight('native');
+    const destination = nativeDestination.trim();
+    const amount = nativeAmount.trim();
+    let memo;
     try {
-      await sendPaymentOnMainnet(stellarSecret, nativeDestination.trim(), nativeAmount.trim());
-      setInfo('XLM payment submitted. Check Horizon for confirmation.');
+      memo = parseMemo(nativeMemo);
     } catch (err) {
-      console.error('Failed to send XLM payment', err);
-      setInfo(null);
-      setError(formatStellarError(err, 'Unable to send XLM payment. Inspect console for details.'));
-    } finally {
-      setOperationInFlight(null);
+      setError(toStellarError(err, 'Check the memo and try again.'));
+      return;
     }
+    await runQueued(
+      `XLM payment to ${destination.slice(0, 6)}…`,
+      async () => {
+        await assertMemoProvided(network, destination, memo);
+        await sendPaymentOnMainnet(
+          network,
+          wallet.signer,
+          destination,
+          amount,
+          reviewTransaction,
+          feeLevel,
+          memo
+        );
+        setInfo('XLM payment submitted. Check Horizon for confirmation.');
+      },
+      'Unable to send XLM payment. Inspect console for details.'
+    );
   };
 
   const handleSendAsset = async () => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
     if (
@@ -220,30 +614,149 @@ const App = () => {
       return;
     }
 
-    setError(null);
-    setInfo(`Submitting ${assetCode.trim()} payment…`);
-    setOperationInFlight('asset');
+    const destination = assetDestination.trim();
+    const code = assetCode.trim();
+    const issuer = assetIssuer.trim();
+    const amount = assetAmount.trim();
+    let memo;
     try {
-      await sendAssetPaymentOnMainnet(
-        stellarSecret,
-        assetDestination.trim(),
-        assetCode.trim(),
-        assetIssuer.trim(),
-        assetAmount.trim()
-      );
-      setInfo(`${assetCode.trim()} payment submitted. Check Horizon for confirmation.`);
+      memo = parseMemo(assetMemo);
     } catch (err) {
-      console.error('Failed to send asset payment', err);
-      setInfo(null);
-      setError(formatStellarError(err, 'Unable to send asset payment. Inspect console for details.'));
-    } finally {
-      setOperationInFlight(null);
+      setError(toStellarError(err, 'Check the memo and try again.'));
+      return;
     }
+    await runQueued(
+      `${code} payment to ${destination.slice(0, 6)}…`,
+      async () => {
+        await assertAssetNotMismatched(network, code, issuer);
+        await assertMemoProvided(network, destination, memo);
+        assertPaymentDestination(destination);
+        const delivery = await checkDirectDelivery(
+          network,
+          baseAccountOf(destination),
+          code,
+          issuer,
+          amount
+        );
+        if (!delivery.direct) {
+          if (!assetClaimConfirmed) {
+            throw new ValidationError(
+              `${delivery.reason} Review the claimable balance terms and confirm them to send it.`
+            );
+          }
+          await sendClaimableBalanceOnMainnet(
+            network,
+            wallet.signer,
+            destination,
+            code,
+            issuer,
+            amount,
+            assetClaimTerms,
+            reviewTransaction,
+            feeLevel,
+            memo
+          );
+          setAssetClaimConfirmed(false);
+          setInfo(`${code} sent as a claimable balance.`);
+          return;
+        }
+        await sendAssetPaymentOnMainnet(
+          network,
+          wallet.signer,
+          destination,
+          code,
+          issuer,
+          amount,
+          reviewTransaction,
+          feeLevel,
+          memo
+        );
+        setInfo(`${code} payment submitted. Check Horizon for confirmation.`);
+      },
+      'Unable to send asset payment. Inspect console for details.'
+    );
+  };
+
+  const handleSendPathPayment = async (
+    destination: string,
+    quote: PathQuote,
+    slippageBps: number,
+    memo?: Memo
+  ) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+
+    const destCode = assetCodeOf(quote.destAsset);
+    await runQueued(
+      `${assetCodeOf(quote.sendAsset)} → ${destCode} payment to ${destination.slice(0, 6)}…`,
+      async () => {
+        if (!quote.destAsset.isNative()) {
+          await assertAssetNotMismatched(
+            network,
+            quote.destAsset.getCode(),
+            quote.destAsset.getIssuer()
+          );
+        }
+        await assertMemoProvided(network, destination, memo);
+        await sendPathPaymentOnMainnet(
+          network,
+          wallet.signer,
+          destination,
+          quote,
+          slippageBps,
+          reviewTransaction,
+          feeLevel,
+          memo
+        );
+        setInfo(`${destCode} path payment submitted. Check Horizon for confirmation.`);
+      },
+      'Unable to send path payment. Inspect console for details.'
+    );
+  };
+
+  const handleAnchorWithdrawal = async (
+    session: AnchorSession,
+    code: string,
+    transfer: Sep24Transaction
+  ): Promise<boolean> => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return false;
+    }
+
+    const issuer = session.issuers[code];
+    const destination = transfer.withdraw_anchor_account;
+    const amount = transfer.amount_in;
+    if (!issuer || !destination || !amount) {
+      setError(`${session.homeDomain} did not provide the payment details for this withdrawal.`);
+      return false;
+    }
+
+    return runQueued(
+      `${code} withdrawal via ${session.homeDomain}`,
+      async () => {
+        await sendAssetPaymentOnMainnet(
+          network,
+          wallet.signer,
+          destination,
+          code,
+          issuer,
+          amount,
+          reviewTransaction,
+          feeLevel,
+          withdrawalMemo(transfer)
+        );
+        setInfo(`${code} sent to ${session.homeDomain}. The withdrawal status updates automatically.`);
+      },
+      'Unable to send the withdrawal payment. Inspect console for details.'
+    );
   };
 
   const handleCreateTrustline = async () => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
     if (!trustAssetCode.trim() || !trustAssetIssuer.trim()) {
@@ -251,29 +764,115 @@ const App = () => {
       return;
     }
 
-    setError(null);
-    setInfo(`Creating trustline for ${trustAssetCode.trim()}…`);
-    setOperationInFlight('trust');
-    try {
-      await createTrustlineOnMainnet(
-        stellarSecret,
-        trustAssetCode.trim(),
-        trustAssetIssuer.trim(),
-        trustLimit.trim() || undefined
-      );
-      setInfo(`Trustline for ${trustAssetCode.trim()} submitted. Check Horizon for confirmation.`);
-    } catch (err) {
-      console.error('Failed to create trustline', err);
-      setInfo(null);
-      setError(formatStellarError(err, 'Unable to create trustline. Inspect console for details.'));
-    } finally {
-      setOperationInFlight(null);
+    const code = trustAssetCode.trim();
+    const issuer = trustAssetIssuer.trim();
+    const limit = trustLimit.trim() || undefined;
+    await runQueued(
+      `Trustline for ${code}`,
+      async () => {
+        await assertAssetNotMismatched(network, code, issuer);
+        await createTrustlineOnMainnet(
+          network,
+          wallet.signer,
+          code,
+          issuer,
+          reviewTransaction,
+          limit,
+          feeLevel
+        );
+        setInfo(`Trustline for ${code} submitted. Check Horizon for confirmation.`);
+      },
+      'Unable to create trustline. Inspect console for details.'
+    );
+  };
+
+  const handleUpdateTrustlineLimit = async (trustline: Trustline, limit: string) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+
+    await runQueued(
+      `${trustline.assetCode} trustline limit`,
+      async () => {
+        await updateTrustlineLimitOnMainnet(
+          network,
+          wallet.signer,
+          trustline.assetCode,
+          trustline.assetIssuer,
+          limit,
+          reviewTransaction,
+          feeLevel
+        );
+        setInfo(`${trustline.assetCode} trustline limit updated.`);
+        await fetchBalances(true);
+      },
+      'Unable to update the trustline limit. Inspect console for details.'
+    );
+  };
+
+  const handleRemoveTrustline = async (trustline: Trustline) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
     }
+
+    await runQueued(
+      `Remove ${trustline.assetCode} trustline`,
+      async () => {
+        await removeTrustlineOnMainnet(
+          network,
+          wallet.signer,
+          trustline.assetCode,
+          trustline.assetIssuer,
+          reviewTransaction,
+          feeLevel
+        );
+        setInfo(`${trustline.assetCode} trustline removed; its reserve is available again.`);
+        await fetchBalances(true);
+      },
+      'Unable to remove the trustline. Inspect console for details.'
+    );
   };
 
-  const fetchPoolSnapshot = useCallback(async (silent = false) => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+  const handleFeeBump = async (signedEnvelope: string, level: FeeLevel) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+
+    setInfo('Resubmitting with a higher fee…');
+    await runQueued(
+      'Fee-bumped resubmission',
+      async () => {
+        const outcome = await resubmitWithFeeBump(network, wallet.signer, signedEnvelope, level);
+        if (outcome.status === 'FAILED') {
+          throw fromSorobanOutcome('Fee-bumped transaction', outcome);
+        }
+        reportSorobanOutcome('Fee-bumped transaction', outcome);
+        await fetchBalances(true);
+      },
+      'Unable to resubmit the transaction. Inspect console for details.'
+    );
+  };
+
+  const handleFeeLevelChange = (level: FeeLevel) => {
+    persistFeeLevel(level);
+    setFeeLevel(level);
+  };
+
+  /** `forceSnapshot` records a yield snapshot even if the last one is recent. */
+  const fetchPools = useCallback(async (silent = false, forceSnapshot = false) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+
+    if (!hasPools) {
+      setPools([]);
+      if (!silent) {
+        setInfo(`No Blend pools are configured for ${network.name}.`);
+      }
       return;
     }
 
@@ -283,42 +882,25 @@ const App = () => {
     setPoolDataInFlight(true);
 
     try {
-      const keypair = Keypair.fromSecret(stellarSecret);
-      const rawData = await poolData(
-        'CCCCIQSDILITHMM7PBSLVDT5MISSY7R26MNZXCX4H7J5JQ5FPIYOGYFS',
-        keypair.publicKey()
-      );
+      const entries = await loadPoolRegistry(network, wallet.publicKey);
+      setPools(entries);
+      setYieldLog(recordYieldSnapshots(network, wallet.publicKey, entries, forceSnapshot));
 
-      const replacer = (_key: string, value: unknown) =>
-        typeof value === 'bigint' ? value.toString() : value;
-      setPoolInfo(JSON.stringify(rawData, replacer, 2));
-
-      const { userEstimate } = rawData;
-      if (userEstimate) {
-        setPoolMetrics({
-          totalSupplied: Number(userEstimate.totalSupplied ?? 0),
-          netApy: Number(userEstimate.netApy ?? 0),
-          supplyApy: Number(userEstimate.supplyApy ?? 0)
-        });
-      }
-
-      if (!silent) {
+      const failed = entries.filter((entry) => entry.error);
+      if (failed.length > 0 && !silent) {
+        setInfo(null);
+        setError(failed.map((entry) => `${entry.name}: ${entry.error}`).join('\n'));
+      } else if (!silent) {
         setInfo('Pool data loaded.');
       }
-    } catch (err) {
-      console.error('Unable to load pool data', err);
-      setPoolInfo('');
-      setPoolMetrics(null);
-      setInfo(null);
-      setError(formatStellarError(err, 'Unable to load pool data. Inspect console for details.'));
     } finally {
       setPoolDataInFlight(false);
     }
-  }, [stellarSecret]);
+  }, [wallet, network, hasPools]);
 
   const fetchBalances = useCallback(async (silent = false) => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
 
@@ -328,117 +910,675 @@ const App = () => {
     setBalancesInFlight(true);
 
     try {
-      const keypair = Keypair.fromSecret(stellarSecret);
-      const balances = await fetchWalletBalances(keypair.publicKey());
+      const balances = await fetchWalletBalances(network, wallet.publicKey);
       setWalletBalances(balances);
+      setAccountFunded(true);
       if (!silent) {
         setInfo('Wallet balances loaded.');
       }
     } catch (err) {
+      if (isUnfundedAccountError(err)) {
+        setWalletBalances([]);
+        setAccountFunded(false);
+        setInfo(null);
+        return;
+      }
       console.error('Unable to load wallet balances', err);
       setWalletBalances([]);
       setInfo(null);
-      setError(formatStellarError(err, 'Unable to load wallet balances. Inspect console for details.'));
+      setError(toStellarError(err, 'Unable to load wallet balances. Inspect console for details.'));
     } finally {
       setBalancesInFlight(false);
     }
-  }, [stellarSecret]);
+  }, [wallet, network]);
+
+  const fetchClaimableBalances = useCallback(async () => {
+    if (!wallet) {
+      setClaimableBalances([]);
+      return;
+    }
+    try {
+      setClaimableBalances(await listClaimableBalances(network, wallet.publicKey));
+    } catch (err) {
+      console.warn('Unable to load claimable balances', err);
+      setClaimableBalances([]);
+    }
+  }, [wallet, network]);
 
   useEffect(() => {
-    if (wallet && stellarSecret) {
-      void fetchPoolSnapshot(true);
+    setAccountFunded(null);
+  }, [wallet, network]);
+
+  useEffect(() => {
+    if (wallet) {
+      void fetchPools(true);
       void fetchBalances(true);
     }
-  }, [wallet, stellarSecret, fetchPoolSnapshot, fetchBalances]);
+    void fetchClaimableBalances();
+  }, [wallet, fetchPools, fetchBalances, fetchClaimableBalances]);
+
+  /**
+   * Looks up pool submissions that timed out and counts their flows once
+   * they are confirmed, or drops them once they can no longer land.
+   */
+  const resolvePendingPoolFlows = useCallback(
+    async (accountId: string): Promise<YieldLog> => {
+      let log = loadYieldLog(network, accountId);
+      for (const pending of log.pending) {
+        let resolution;
+        try {
+          resolution = await checkTimedOutTransaction(
+            network,
+            pending.hash,
+            pending.submittedAt,
+            pending.expiresAt
+          );
+        } catch (err) {
+          console.warn('Unable to check a pending pool submission', err);
+          continue;
+        }
+        if (resolution !== 'PENDING') {
+          log = settlePendingPoolFlows(network, accountId, pending.hash, resolution === 'SUCCESS');
+        }
+      }
+      return log;
+    },
+    [network]
+  );
+
+  useEffect(() => {
+    if (!wallet) {
+      return;
+    }
+
+    let cancelled = false;
+    setYieldLog(loadYieldLog(network, wallet.publicKey));
+    void resolvePendingPoolFlows(wallet.publicKey).then((log) => {
+      if (!cancelled) {
+        setYieldLog(log);
+      }
+    });
+    // Keeps the yield history growing while the app stays open.
+    const timer = window.setInterval(() => void fetchPools(true), SNAPSHOT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [wallet, network, fetchPools, resolvePendingPoolFlows]);
 
-  const handleSupply = async () => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+  useEffect(() => {
+    if (!wallet) {
       return;
     }
 
-    if (!supplyPoolId.trim() || !supplyAsset.trim() || !supplyAmount.trim()) {
-      setError('Pool ID, asset address, and amount are required to supply collateral.');
+    setStreamStatus('connecting');
+    return subscribeToAccountActivity(network, wallet.publicKey, {
+      onActivity: () => {
+        void fetchBalances(true);
+        void fetchClaimableBalances();
+      },
+      onIncomingPayment: (payment) =>
+        pushToast(
+          `Received ${payment.amount} ${payment.assetCode} from ${payment.from.slice(0, 6)}…`
+        ),
+      onStatusChange: setStreamStatus
+    });
+  }, [wallet, network, fetchBalances, fetchClaimableBalances, pushToast]);
+
+  const handlePoolActions = async (poolId: string, actions: PoolAction[]) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
 
-    let parsedAmount: bigint;
+    let requests;
     try {
-      parsedAmount = BigInt(supplyAmount.trim());
-    } catch {
-      setError('Amount must be a valid integer (in the smallest units expected by the contract).');
+      requests = buildPoolRequests(actions);
+    } catch (err) {
+      setError(toStellarError(err, 'Check the pool actions and try again.'));
       return;
     }
 
-    setError(null);
-    setInfo('Submitting supply operation…');
-    setOperationInFlight('supply');
+    const label = describePoolActions(actions);
+    await runQueued(
+      label,
+      async () => {
+        const outcome = await submitPoolRequests(
+          network,
+          wallet.signer,
+          poolId,
+          requests,
+          reviewTransaction,
+          feeLevel
+        );
+        if (outcome.status === 'FAILED') {
+          throw fromSorobanOutcome(label, outcome);
+        }
+        reportSorobanOutcome(label, outcome);
+        const reserves = pools.find((entry) => entry.id === poolId)?.reserves ?? [];
+        if (outcome.status === 'SUCCESS') {
+          setYieldLog(recordPoolFlows(network, wallet.publicKey, poolId, actions, reserves));
+        } else {
+          // Counted once it is confirmed, so a deposit that never lands is not a loss.
+          setYieldLog(
+            recordPendingPoolFlows(network, wallet.publicKey, poolId, actions, reserves, {
+              hash: outcome.hash,
+              submittedAt: outcome.submittedAt ?? Date.now(),
+              expiresAt: outcome.expiresAt
+            })
+          );
+        }
+        await fetchPools(true, true);
+        await fetchBalances(true);
+      },
+      'Unable to submit pool actions. Inspect console for details.'
+    );
+  };
+
+  /**
+   * Submits due savings runs as one pool `submit` per pool and logs each
+   * batch. `unattended` batches are signed by the delegated signer and only
+   * approved if they are exactly the expected pool call. Batches still
+   * waiting when `isCancelled` turns true are left due.
+   */
+  const executeSavingsRuns = useCallback(
+    async (
+      runs: DueRun[],
+      signer: Signer,
+      unattended: boolean,
+      isCancelled: () => boolean = () => false
+    ) => {
+      if (!wallet) {
+        setError('Unlock your wallet first.');
+        return;
+      }
 
+      for (const batch of planBatches(runs)) {
+        if (isCancelled()) {
+          return;
+        }
+        const label = `Scheduled savings (${batch.runs.length} deposit${batch.runs.length > 1 ? 's' : ''})`;
+        const keys = batch.runs.map(dueRunKey);
+        keys.forEach((key) => savingsInFlight.current.add(key));
+        // The queue may run the job again after a sequence error, so failures
+        // are only logged once the queue has given up on it.
+        let lastError: unknown;
+        let settled = false;
+        try {
+          const succeeded = await runQueued(
+            label,
+            async () => {
+              try {
+                const outcome = await submitPoolRequests(
+                  network,
+                  signer,
+                  batch.poolId,
+                  buildPoolRequests(batch.actions),
+                  unattended ? approvePlanBatch(batch, wallet.publicKey) : reviewTransaction,
+                  feeLevel
+                );
+                if (outcome.status === 'FAILED') {
+                  throw fromSorobanOutcome(label, outcome);
+                }
+                reportSorobanOutcome(label, outcome);
+                settled = true;
+                if (outcome.status === 'TIMEOUT') {
+                  // It may still land, so it is not retried; the next visit resolves it.
+                  setSavings(
+                    settleRuns(
+                      network,
+                      wallet.publicKey,
+                      batch.runs,
+                      'pending',
+                      `tx ${outcome.hash}`,
+                      {
+                        hash: outcome.hash,
+                        submittedAt: outcome.submittedAt ?? Date.now(),
+                        expiresAt: outcome.expiresAt
+                      }
+                    )
+                  );
+                } else {
+                  setSavings(settleRuns(network, wallet.publicKey, batch.runs, 'executed'));
+                  recordPoolFlows(
+                    network,
+                    wallet.publicKey,
+                    batch.poolId,
+                    batch.actions,
+                    batch.runs.map(({ plan }) => plan)
+                  );
+                }
+              } catch (err) {
+                lastError = err;
+                throw err;
+              }
+              await fetchPools(true, true);
+              await fetchBalances(true);
+            },
+            'Unable to make the scheduled deposit. Inspect console for details.'
+          );
+          if (!succeeded && !settled) {
+            setSavings(
+              settleRuns(
+                network,
+                wallet.publicKey,
+                batch.runs,
+                'failed',
+                lastError === undefined
+                  ? 'Not submitted: an earlier transaction in the queue failed.'
+                  : toStellarError(lastError, 'Deposit failed.').message
+              )
+            );
+          }
+        } finally {
+          keys.forEach((key) => savingsInFlight.current.delete(key));
+        }
+      }
+    },
+    [
+      wallet,
+      network,
+      feeLevel,
+      runQueued,
+      reviewTransaction,
+      reportSorobanOutcome,
+      fetchPools,
+      fetchBalances
+    ]
+  );
+
+  /**
+   * Looks up deposits whose transaction timed out on an earlier visit and
+   * settles them as executed or failed once the network can tell.
+   */
+  const resolvePendingSavings = useCallback(
+    async (accountId: string) => {
+      for (const pending of pendingSubmissions(loadSavings(network, accountId))) {
+        let resolution;
+        try {
+          resolution = await checkTimedOutTransaction(
+            network,
+            pending.hash,
+            pending.submittedAt,
+            pending.expiresAt
+          );
+        } catch (err) {
+          console.warn('Unable to check a pending scheduled deposit', err);
+          continue;
+        }
+        if (resolution === 'PENDING') {
+          continue;
+        }
+
+        const { runs } = resolvePendingRuns(
+          network,
+          accountId,
+          pending.hash,
+          resolution === 'SUCCESS' ? 'executed' : 'failed',
+          resolution === 'SUCCESS'
+            ? `Confirmed late, tx ${pending.hash}`
+            : resolution === 'FAILED'
+            ? `Failed on the ledger, tx ${pending.hash}`
+            : 'Never confirmed before it expired.'
+        );
+        if (resolution === 'SUCCESS') {
+          planBatches(runs).forEach((batch) =>
+            recordPoolFlows(
+              network,
+              accountId,
+              batch.poolId,
+              batch.actions,
+              batch.runs.map(({ plan }) => plan),
+              pending.submittedAt
+            )
+          );
+        }
+      }
+    },
+    [network]
+  );
+
+  /** Due runs, minus the ones a batch is submitting right now. */
+  const collectIdleDueRuns = useCallback(
+    (accountId: string) => {
+      const { state, due } = collectDueRuns(network, accountId);
+      return { state, due: due.filter((run) => !savingsInFlight.current.has(dueRunKey(run))) };
+    },
+    [network]
+  );
+
+  // Works out due savings runs when the wallet opens, after resolving
+  // deposits left pending last time; automatic plans run straight away if
+  // the delegated signer is still on the account. Runs already being
+  // submitted are left out, so re-running this effect never submits the same
+  // deposit twice.
+  useEffect(() => {
+    setDueRuns([]);
+    if (!wallet) {
+      setSavings(EMPTY_SAVINGS);
+      setDelegateKey(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSavings(loadSavings(network, wallet.publicKey));
+    void delegatePublicKey(network, wallet.publicKey)
+      .then((publicKey) => {
+        if (!cancelled) {
+          setDelegateKey(publicKey);
+        }
+      })
+      .catch((err) => console.warn('Unable to read the delegated signer', err));
+
+    void resolvePendingSavings(wallet.publicKey).then(async () => {
+      if (cancelled) {
+        return;
+      }
+      const { state, due } = collectIdleDueRuns(wallet.publicKey);
+      setSavings(state);
+      const automatic = due.filter((run) => run.plan.autoExecute);
+      setDueRuns(due.filter((run) => !run.plan.autoExecute));
+      if (automatic.length === 0) {
+        return;
+      }
+
+      const delegate = await loadDelegatedSigner(network, wallet.publicKey).catch((err) => {
+        console.warn('Unable to check the delegated signer', err);
+        return null;
+      });
+      if (cancelled) {
+        return;
+      }
+      if (!delegate) {
+        pushToast('Scheduled deposits need your approval: the delegated signer is unavailable.');
+        setDueRuns(due);
+        return;
+      }
+      await executeSavingsRuns(automatic, delegate, true, () => cancelled);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    wallet,
+    network,
+    resolvePendingSavings,
+    collectIdleDueRuns,
+    executeSavingsRuns,
+    pushToast
+  ]);
+
+  const handleApproveDueRuns = async () => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+    const runs = dueRuns;
+    setDueRuns([]);
+    await executeSavingsRuns(runs, wallet.signer, false);
+    setDueRuns(collectIdleDueRuns(wallet.publicKey).due.filter((run) => !run.plan.autoExecute));
+  };
+
+  const handleSkipDueRuns = () => {
+    if (!wallet) {
+      return;
+    }
+    setSavings(settleRuns(network, wallet.publicKey, dueRuns, 'skipped', 'Skipped by you.'));
+    setDueRuns([]);
+  };
+
+  const handleCreateSavingsPlan = (draft: SavingsPlanDraft) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
     try {
-      await supplyOp(stellarSecret, supplyPoolId.trim(), supplyAsset.trim(), parsedAmount);
-      setInfo('Supply operation submitted. Check Horizon for confirmation.');
-      await fetchPoolSnapshot(true);
-      await fetchBalances(true);
+      setSavings(createSavingsPlan(network, wallet.publicKey, draft));
+      setInfo('Savings plan created.');
     } catch (err) {
-      console.error('Failed to submit supply operation', err);
-      setInfo(null);
-      setError(formatStellarError(err, 'Unable to submit supply operation. Inspect console for details.'));
-    } finally {
-      setOperationInFlight(null);
+      setError(toStellarError(err, 'Check the savings plan and try again.'));
+    }
+  };
+
+  const handleUpdateSavingsPlan = (
+    planId: string,
+    changes: Partial<Pick<SavingsPlan, 'paused' | 'autoExecute'>>
+  ) => {
+    if (wallet) {
+      setSavings(updateSavingsPlan(network, wallet.publicKey, planId, changes));
     }
   };
 
-  const handleWithdrawal = async () => {
-    if (!stellarSecret) {
-      setError('Missing VITE_STELLAR_SECRET_KEY. Update your .env.local file.');
+  const handleDeleteSavingsPlan = (planId: string) => {
+    if (wallet) {
+      setSavings(deleteSavingsPlan(network, wallet.publicKey, planId));
+      setDueRuns((prev) => prev.filter((run) => run.plan.id !== planId));
+    }
+  };
+
+  const handleEnableDelegate = async () => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
+    await runQueued(
+      'Add delegated signer',
+      async () => {
+        setDelegateKey(
+          await enableDelegatedSigner(network, wallet.signer, reviewTransaction, feeLevel)
+        );
+        setInfo('Delegated signer added. Automatic plans will run when you open the app.');
+      },
+      'Unable to add the delegated signer. Inspect console for details.'
+    );
+  };
 
-    if (!withdrawPoolId.trim() || !withdrawAsset.trim() || !withdrawAmount.trim()) {
-      setError('Pool ID, asset address, and amount are required to withdraw collateral.');
+  const handleRevokeDelegate = async () => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
+    await runQueued(
+      'Revoke delegated signer',
+      async () => {
+        await revokeDelegatedSigner(network, wallet.signer, reviewTransaction, feeLevel);
+        setDelegateKey(null);
+        // Automatic plans fall back to asking for approval.
+        loadSavings(network, wallet.publicKey)
+          .plans.filter((plan) => plan.autoExecute)
+          .forEach((plan) =>
+            updateSavingsPlan(network, wallet.publicKey, plan.id, { autoExecute: false })
+          );
+        setSavings(loadSavings(network, wallet.publicKey));
+        setInfo('Delegated signer removed from your account.');
+      },
+      'Unable to revoke the delegated signer. Inspect console for details.'
+    );
+  };
 
-    let parsedAmount: bigint;
-    try {
-      parsedAmount = BigInt(withdrawAmount.trim());
-    } catch {
-      setError('Amount must be a valid integer (in the smallest units expected by the contract).');
+  const handleClaimBalance = async (balance: ClaimableBalance) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
       return;
     }
 
-    setError(null);
-    setInfo('Submitting withdrawal operation…');
-    setOperationInFlight('withdraw');
+    await runQueued(
+      `Claim ${balance.amount} ${balance.assetCode}`,
+      async () => {
+        await claimBalanceOnMainnet(network, wallet.signer, balance, reviewTransaction, feeLevel);
+        setInfo(`Claimed ${balance.amount} ${balance.assetCode}.`);
+        await fetchBalances(true);
+        await fetchClaimableBalances();
+      },
+      'Unable to claim the balance. Inspect console for details.'
+    );
+  };
+
+  /**
+   * Opens the network's activation trustlines on a freshly funded account.
+   * They are queued together, so a rejected one skips the rest.
+   */
+  const openActivationTrustlines = async (publicKey: string, signer: Signer) => {
+    const balances = await fetchWalletBalances(network, publicKey);
+    setWalletBalances(balances);
+    setAccountFunded(true);
+
+    const missing = missingActivationTrustlines(network, balances);
+    await Promise.all(
+      missing.map((asset) =>
+        runQueued(
+          `Trustline for ${asset.code}`,
+          () =>
+            createTrustlineOnMainnet(
+              network,
+              signer,
+              asset.code,
+              asset.issuer,
+              reviewTransaction,
+              undefined,
+              feeLevel
+            ),
+          `Unable to open the ${asset.code} trustline. Inspect console for details.`
+        )
+      )
+    );
+    await fetchBalances(true);
+  };
+
+  const handleFriendbotActivation = async () => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
 
+    setError(null);
+    setInfo('Requesting funds from Friendbot…');
+    setActivationInFlight(true);
     try {
-      await withdrawalOp(stellarSecret, withdrawPoolId.trim(), withdrawAsset.trim(), parsedAmount);
-      setInfo('Withdrawal operation submitted. Check Horizon for confirmation.');
-      await fetchPoolSnapshot(true);
-      await fetchBalances(true);
+      await fundWithFriendbot(network, wallet.publicKey);
+      setInfo('Account activated.');
+      await openActivationTrustlines(wallet.publicKey, wallet.signer);
     } catch (err) {
-      console.error('Failed to submit withdrawal operation', err);
+      console.error('Friendbot activation failed', err);
       setInfo(null);
-      setError(
-        formatStellarError(err, 'Unable to submit withdrawal operation. Inspect console for details.')
+      setError(toStellarError(err, 'Unable to fund the account. Inspect console for details.'));
+    } finally {
+      setActivationInFlight(false);
+    }
+  };
+
+  /**
+   * Funds the wallet from a sponsor account that signs in its own wallet.
+   * The transaction spends the sponsor's sequence number, not ours, so it is
+   * submitted directly rather than through the wallet's queue.
+   */
+  const handleSponsoredActivation = async (sponsorPublicKey: string, startingBalance: string) => {
+    if (!wallet) {
+      setError('Unlock your wallet first.');
+      return;
+    }
+
+    const sponsor = createExternalSigner(
+      sponsorPublicKey,
+      (transactionXdr) =>
+        new Promise<string>((resolve, reject) => {
+          setInfo('Sign the activation transaction in the sponsor wallet and paste it back.');
+          setPendingSignature({ transactionXdr, resolve, reject });
+        })
+    );
+    setActivationInFlight(true);
+    try {
+      await createAccountOnMainnet(
+        network,
+        sponsor,
+        wallet.publicKey,
+        startingBalance,
+        reviewTransaction,
+        feeLevel
       );
+      setInfo('Account activated.');
+      await openActivationTrustlines(wallet.publicKey, wallet.signer);
+    } catch (err) {
+      console.error('Sponsored activation failed', err);
+      setInfo(null);
+      setError(toStellarError(err, 'Unable to activate the account. Inspect console for details.'));
     } finally {
-      setOperationInFlight(null);
+      setPendingSignature(null);
+      setActivationInFlight(false);
+    }
+  };
+
+  const settleSignature = (signedXdr: string | null) => {
+    if (signedXdr) {
+      pendingSignature?.resolve(signedXdr);
+    } else {
+      pendingSignature?.reject(new TransactionRejectedError());
     }
+    setPendingSignature(null);
   };
 
   const handleFetchPoolData = async () => {
-    await fetchPoolSnapshot(false);
+    await fetchPools(false);
   };
 
+  const rawPool = pools.find((entry) => entry.id === rawPoolId && entry.snapshot);
+  const rawPoolData = rawPool
+    ? JSON.stringify(
+        rawPool.snapshot,
+        (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value),
+        2
+      )
+    : '';
+
   return (
     <main className="app">
       <section className="card">
+        {!isMainnet(network) && (
+          <p className="network-badge">{network.name} · test funds only</p>
+        )}
         <h1>Welcome to SuperCETES</h1>
         <p className="lead">
           Sign in with your email to spin up a Stellar wallet powered by Privy.
         </p>
 
+        <div className="input-group network-switcher">
+          <label htmlFor="network">Network</label>
+          <select
+            id="network"
+            value={networkId}
+            onChange={(e) => handleNetworkChange(e.currentTarget.value as NetworkId)}
+            disabled={queueBusy}
+          >
+            {Object.values(NETWORK_PROFILES).map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="input-group network-switcher">
+          <label htmlFor="fee-level">Network fee</label>
+          <select
+            id="fee-level"
+            value={feeLevel}
+            onChange={(e) => handleFeeLevelChange(e.currentTarget.value as FeeLevel)}
+          >
+            {Object.entries(FEE_LEVELS).map(([value, definition]) => (
+              <option key={value} value={value}>
+                {definition.label}
+                {feeEstimates
+                  ? ` · ${formatStroops(feeEstimates.fees[value as FeeLevel])} per operation`
+                  : ''}
+              </option>
+            ))}
+          </select>
+          {feeEstimates?.congested && (
+            <p className="field-hint">The network is congested; economy fees may not get through.</p>
+          )}
+        </div>
+
         {!ready && <p className="status">Preparing authentication...</p>}
 
         {ready && !authenticated && (
@@ -490,7 +1630,8 @@ const App = () => {
         {ready && authenticated && (
           <div className="dashboard">
             <p className="status">
-              Hello {user?.email?.address ?? 'explorer'}! Your Stellar wallet is ready.
+              Hello {user?.email?.address ?? 'explorer'}!{' '}
+              {wallet ? 'Your Stellar wallet is ready.' : 'Unlock your Stellar wallet to continue.'}
             </p>
 
             {wallet ? (
@@ -500,70 +1641,280 @@ const App = () => {
                   <span>Public Key:</span>
                   <code>{wallet.publicKey}</code>
                 </p>
-                <p>
-                  <span>Secret Key:</span>
-                  <code>{wallet.secretKey}</code>
+                {revealedSecret ? (
+                  <p>
+                    <span>Secret Key:</span>
+                    <code>{revealedSecret}</code>
+                  </p>
+                ) : revealPromptOpen ? (
+                  <div className="input-group">
+                    <label htmlFor="reveal-passphrase">Confirm passphrase to reveal secret key</label>
+                    <div className="field-row">
+                      <input
+                        id="reveal-passphrase"
+                        type="password"
+                        autoComplete="current-password"
+                        value={revealPassphrase}
+                        onChange={(e) => setRevealPassphrase(e.currentTarget.value)}
+                      />
+                      <button
+                        type="button"
+                        className="primary"
+                        onClick={handleRevealSecret}
+                        disabled={keystoreInFlight || !revealPassphrase}
+                      >
+                        {keystoreInFlight ? 'Verifying…' : 'Reveal'}
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+                <div className="wallet-actions">
+                  {revealedSecret ? (
+                    <button type="button" className="secondary" onClick={() => setRevealedSecret(null)}>
+                      Hide Secret Key
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => setRevealPromptOpen((prev) => !prev)}
+                    >
+                      {revealPromptOpen ? 'Cancel' : 'Reveal Secret Key'}
+                    </button>
+                  )}
+                  <button type="button" className="secondary" onClick={handleLockWallet}>
+                    Lock Wallet
+                  </button>
+                </div>
+                <p className="note">
+                  Your key is encrypted with your passphrase and stored only in this browser.
+                  Never share the secret key with anyone.
                 </p>
+              </div>
+            ) : keystoreStatus === 'missing' ? (
+              <div className="wallet keystore-panel">
+                <h2>Create your Stellar wallet</h2>
                 <p className="note">
-                  Demo only: keys live in memory. Wire this into secure storage before launch.
+                  Choose a passphrase to encrypt your new wallet. It never leaves this browser and
+                  cannot be recovered if you forget it.
                 </p>
+                <div className="input-group">
+                  <label htmlFor="new-passphrase">Passphrase</label>
+                  <input
+                    id="new-passphrase"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.currentTarget.value)}
+                  />
+                </div>
+                <div className="input-group">
+                  <label htmlFor="confirm-passphrase">Confirm passphrase</label>
+                  <input
+                    id="confirm-passphrase"
+                    type="password"
+                    autoComplete="new-password"
+                    value={passphraseConfirm}
+                    onChange={(e) => setPassphraseConfirm(e.currentTarget.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="primary"
+                  onClick={handleCreateWallet}
+                  disabled={keystoreInFlight}
+                >
+                  {keystoreInFlight ? 'Creating…' : 'Create Wallet'}
+                </button>
+              </div>
+            ) : keystoreStatus === 'locked' ? (
+              <div className="wallet keystore-panel">
+                <h2>Unlock your Stellar wallet</h2>
+                {lockedPublicKey && (
+                  <p>
+                    <span>Public Key:</span>
+                    <code>{lockedPublicKey}</code>
+                  </p>
+                )}
+                <div className="input-group">
+                  <label htmlFor="unlock-passphrase">Passphrase</label>
+                  <div className="field-row">
+                    <input
+                      id="unlock-passphrase"
+                      type="password"
+                      autoComplete="current-password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.currentTarget.value)}
+                    />
+                    <button
+                      type="button"
+                      className="primary"
+                      onClick={handleUnlockWallet}
+                      disabled={keystoreInFlight}
+                    >
+                      {keystoreInFlight ? 'Unlocking…' : 'Unlock'}
+                    </button>
+                  </div>
+                </div>
               </div>
+            ) : keystoreStatus === 'unavailable' ? (
+              <p className="status">
+                Wallet storage is unavailable in this browser. Allow site storage (or leave
+                private browsing) and reload.
+              </p>
             ) : (
-              <p className="status">Creating your Stellar wallet...</p>
+              <p className="status">Checking for your Stellar wallet...</p>
+            )}
+
+            {wallet && accountFunded === false && (
+              <ActivationPanel
+                network={network}
+                publicKey={wallet.publicKey}
+                inFlight={activationInFlight || queueBusy}
+                signatureRequest={pendingSignature?.transactionXdr ?? null}
+                onFriendbot={() => void handleFriendbotActivation()}
+                onSponsor={(sponsorPublicKey, startingBalance) =>
+                  void handleSponsoredActivation(sponsorPublicKey, startingBalance)
+                }
+                onSigned={(signedXdr) => settleSignature(signedXdr)}
+                onCancelSignature={() => settleSignature(null)}
+                onError={setError}
+              />
+            )}
+
+            {wallet && (
+              <PortfolioSummary network={network} balances={walletBalances} pools={pools} />
             )}
 
             <div className="metrics-card">
               <div className="metrics-header">
-                <h2>Pool Snapshot</h2>
+                <h2>Blend Pools</h2>
                 <div className="metrics-actions">
                   <button
                     type="button"
                     className="primary"
                     onClick={handleFetchPoolData}
-                    disabled={poolDataInFlight}
+                    disabled={poolDataInFlight || !hasPools}
                   >
                     {poolDataInFlight ? 'Refreshing…' : 'Refresh'}
                   </button>
-                  <button
-                    type="button"
-                    className="secondary"
-                    onClick={() => setShowPoolDetails((prev) => !prev)}
-                    disabled={poolDataInFlight || !poolInfo}
-                  >
-                    {showPoolDetails ? 'Hide Raw Data' : 'Show Raw Data'}
-                  </button>
                 </div>
               </div>
-              {poolMetrics ? (
-                <div className="metrics-grid">
-                  <div className="metric">
-                    <span className="metrics-label">Total Supplied</span>
-                    <span className="metrics-value">
-                      {formatNumber(poolMetrics.totalSupplied)} USDC
-                    </span>
-                  </div>
-                  <div className="metric">
-                    <span className="metrics-label">Net APY</span>
-                    <span className="metrics-value">{formatPercent(poolMetrics.netApy)}</span>
-                  </div>
-                  <div className="metric">
-                    <span className="metrics-label">Supply APY</span>
-                    <span className="metrics-value">{formatPercent(poolMetrics.supplyApy)}</span>
-                  </div>
+              {pools.length > 0 ? (
+                <div className="pool-grid">
+                  {pools.map((entry) => (
+                    <div key={entry.id} className="pool-summary">
+                      <div className="pool-summary-header">
+                        <h3>{entry.name}</h3>
+                        <code title={entry.id}>{`${entry.id.slice(0, 6)}…${entry.id.slice(-4)}`}</code>
+                      </div>
+                      {entry.snapshot ? (
+                        <>
+                          <div className="metrics-grid">
+                            <div className="metric">
+                              <span className="metrics-label">Total Supplied</span>
+                              <span className="metrics-value">
+                                {formatNumber(entry.snapshot.userEstimate.totalSupplied)}
+                              </span>
+                            </div>
+                            <div className="metric">
+                              <span className="metrics-label">Total Borrowed</span>
+                              <span className="metrics-value">
+                                {formatNumber(entry.snapshot.userEstimate.totalBorrowed)}
+                              </span>
+                            </div>
+                            <div className="metric">
+                              <span className="metrics-label">Net APY</span>
+                              <span className="metrics-value">
+                                {formatPercent(entry.snapshot.userEstimate.netApy)}
+                              </span>
+                            </div>
+                            <div className="metric">
+                              <span className="metrics-label">Supply APY</span>
+                              <span className="metrics-value">
+                                {formatPercent(entry.snapshot.userEstimate.supplyApy)}
+                              </span>
+                            </div>
+                          </div>
+                          <ul className="reserve-list">
+                            {entry.reserves.map((reserve) => (
+                              <li key={reserve.assetId}>
+                                <span>{reserve.symbol}</span>
+                                <span>
+                                  Supply {formatPercent(reserve.supplyApy)} · Borrow{' '}
+                                  {formatPercent(reserve.borrowApy)} · CF{' '}
+                                  {formatPercent(reserve.collateralFactor)}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                          <button
+                            type="button"
+                            className="secondary"
+                            onClick={() =>
+                              setRawPoolId((prev) => (prev === entry.id ? null : entry.id))
+                            }
+                          >
+                            {rawPoolId === entry.id ? 'Hide Raw Data' : 'Show Raw Data'}
+                          </button>
+                        </>
+                      ) : (
+                        <p className="metrics-placeholder">{entry.error}</p>
+                      )}
+                    </div>
+                  ))}
                 </div>
               ) : (
                 <p className="metrics-placeholder">
-                  Pool data not available yet. Refresh to try again.
+                  {hasPools
+                    ? 'Pool data not available yet. Refresh to try again.'
+                    : `No Blend pools are configured for ${network.name}.`}
                 </p>
               )}
-              {showPoolDetails && poolInfo && (
-                <pre className="pool-data">{poolInfo}</pre>
-              )}
+              {rawPoolData && <pre className="pool-data">{rawPoolData}</pre>}
+              <p className="note">Values are quoted in the currency of each pool oracle.</p>
             </div>
 
+            {wallet && (
+              <YieldHistoryPanel
+                pools={pools}
+                log={yieldLog}
+                onReset={() => {
+                  clearYieldLog(network, wallet.publicKey);
+                  setYieldLog(EMPTY_YIELD_LOG);
+                }}
+              />
+            )}
+
+            {wallet && (
+              <SavingsPlansPanel
+                pools={pools}
+                savings={savings}
+                due={dueRuns}
+                delegateKey={delegateKey}
+                disabled={operationsDisabled}
+                inFlight={queueBusy}
+                onCreate={handleCreateSavingsPlan}
+                onUpdate={handleUpdateSavingsPlan}
+                onDelete={handleDeleteSavingsPlan}
+                onApproveDue={() => void handleApproveDueRuns()}
+                onSkipDue={handleSkipDueRuns}
+                onEnableDelegate={() => void handleEnableDelegate()}
+                onRevokeDelegate={() => void handleRevokeDelegate()}
+              />
+            )}
+
             <div className="balances-card">
               <div className="metrics-header">
                 <h2>Wallet Balances</h2>
+                <span className={`stream-status ${streamStatus}`}>
+                  {streamStatus === 'live'
+                    ? 'Live'
+                    : streamStatus === 'reconnecting'
+                    ? 'Reconnecting…'
+                    : 'Connecting…'}
+                </span>
                 <button
                   type="button"
                   className="primary"
@@ -601,19 +1952,59 @@ const App = () => {
               )}
             </div>
 
+            <ClaimableBalancesPanel
+              network={network}
+              balances={claimableBalances}
+              hasTrustline={(balance) =>
+                !balance.assetIssuer ||
+                walletBalances.some(
+                  (entry) =>
+                    entry.assetCode === balance.assetCode && entry.assetIssuer === balance.assetIssuer
+                )
+              }
+              disabled={operationsDisabled}
+              inFlight={queueBusy}
+              onClaim={(balance) => void handleClaimBalance(balance)}
+              onRefresh={() => void fetchClaimableBalances()}
+            />
+
+            <TrustlinePanel
+              trustlines={listTrustlines(walletBalances)}
+              disabled={operationsDisabled}
+              inFlight={queueBusy}
+              onUpdateLimit={(trustline, limit) => void handleUpdateTrustlineLimit(trustline, limit)}
+              onRemove={(trustline) => void handleRemoveTrustline(trustline)}
+            />
+
+            {transactionQueue && (
+              <TransactionQueuePanel
+                items={queueItems}
+                onClearFinished={transactionQueue.clearFinished}
+              />
+            )}
+
+            {wallet && <HistoryPanel network={network} accountId={wallet.publicKey} />}
+
             <div className="actions">
               <div className="action-card">
                 <h3>Send XLM</h3>
                 <div className="input-group">
-                  <label htmlFor="native-destination">Destination public key</label>
+                  <label htmlFor="native-destination">Destination address</label>
                   <input
                     id="native-destination"
                     type="text"
-                    placeholder="G..."
+                    placeholder="G... or M..."
                     value={nativeDestination}
                     onChange={(e) => setNativeDestination(e.currentTarget.value)}
                   />
                 </div>
+                <MemoFields
+                  network={network}
+                  idPrefix="native"
+                  destination={nativeDestination}
+                  memo={nativeMemo}
+                  onChange={setNativeMemo}
+                />
                 <div className="input-group">
                   <label htmlFor="native-amount">Amount (XLM)</label>
                   <input
@@ -628,44 +2019,53 @@ const App = () => {
                   type="button"
                   className="primary"
                   onClick={handleSendNative}
-                  disabled={operationsDisabled || operationInFlight === 'native'}
+                  disabled={operationsDisabled}
                 >
-                  {operationInFlight === 'native' ? 'Sending XLM…' : 'Send XLM Payment'}
+                  Send XLM Payment
                 </button>
               </div>
 
               <div className="action-card">
                 <h3>Send Asset</h3>
                 <div className="input-group">
-                  <label htmlFor="asset-destination">Destination public key</label>
+                  <label htmlFor="asset-destination">Destination address</label>
                   <input
                     id="asset-destination"
                     type="text"
-                    placeholder="G..."
+                    placeholder="G... or M..."
                     value={assetDestination}
                     onChange={(e) => setAssetDestination(e.currentTarget.value)}
                   />
                 </div>
-                <div className="input-group">
-                  <label htmlFor="asset-code">Asset code</label>
-                  <input
-                    id="asset-code"
-                    type="text"
-                    placeholder="USDC"
-                    value={assetCode}
-                    onChange={(e) => setAssetCode(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="asset-issuer">Asset issuer</label>
-                  <input
-                    id="asset-issuer"
-                    type="text"
-                    placeholder="G...ISSUER"
-                    value={assetIssuer}
-                    onChange={(e) => setAssetIssuer(e.currentTarget.value)}
-                  />
-                </div>
+                <MemoFields
+                  network={network}
+                  idPrefix="asset"
+                  destination={assetDestination}
+                  memo={assetMemo}
+                  onChange={setAssetMemo}
+                />
+                <AssetPicker
+                  network={network}
+                  idPrefix="asset"
+                  code={assetCode}
+                  issuer={assetIssuer}
+                  onChange={(nextCode, nextIssuer) => {
+                    setAssetCode(nextCode);
+                    setAssetIssuer(nextIssuer);
+                  }}
+                />
+                <ClaimableSendOptions
+                  network={network}
+                  idPrefix="asset"
+                  destination={assetDestination}
+                  assetCode={assetCode}
+                  assetIssuer={assetIssuer}
+                  amount={assetAmount}
+                  terms={assetClaimTerms}
+                  confirmed={assetClaimConfirmed}
+                  onChange={setAssetClaimTerms}
+                  onConfirmChange={setAssetClaimConfirmed}
+                />
                 <div className="input-group">
                   <label htmlFor="asset-amount">Amount</label>
                   <input
@@ -680,34 +2080,46 @@ const App = () => {
                   type="button"
                   className="primary"
                   onClick={handleSendAsset}
-                  disabled={operationsDisabled || operationInFlight === 'asset'}
+                  disabled={operationsDisabled}
                 >
-                  {operationInFlight === 'asset' ? 'Sending asset…' : 'Send Asset Payment'}
+                  Send Asset Payment
                 </button>
               </div>
 
+              <PathPaymentPanel
+                key={network.id}
+                network={network}
+                walletBalances={walletBalances}
+                disabled={operationsDisabled}
+                inFlight={queueBusy}
+                onSubmit={handleSendPathPayment}
+                onError={setError}
+              />
+
+              {wallet && (
+                <AnchorPanel
+                  key={network.id}
+                  network={network}
+                  signer={wallet.signer}
+                  disabled={operationsDisabled}
+                  inFlight={queueBusy}
+                  onSendWithdrawal={handleAnchorWithdrawal}
+                  onError={setError}
+                />
+              )}
+
               <div className="action-card">
                 <h3>Create Trustline</h3>
-                <div className="input-group">
-                  <label htmlFor="trust-asset-code">Asset code</label>
-                  <input
-                    id="trust-asset-code"
-                    type="text"
-                    placeholder="USDC"
-                    value={trustAssetCode}
-                    onChange={(e) => setTrustAssetCode(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="trust-asset-issuer">Asset issuer</label>
-                  <input
-                    id="trust-asset-issuer"
-                    type="text"
-                    placeholder="G...ISSUER"
-                    value={trustAssetIssuer}
-                    onChange={(e) => setTrustAssetIssuer(e.currentTarget.value)}
-                  />
-                </div>
+                <AssetPicker
+                  network={network}
+                  idPrefix="trust-asset"
+                  code={trustAssetCode}
+                  issuer={trustAssetIssuer}
+                  onChange={(nextCode, nextIssuer) => {
+                    setTrustAssetCode(nextCode);
+                    setTrustAssetIssuer(nextIssuer);
+                  }}
+                />
                 <div className="input-group">
                   <label htmlFor="trust-limit">Limit (optional)</label>
                   <input
@@ -722,96 +2134,22 @@ const App = () => {
                   type="button"
                   className="primary"
                   onClick={handleCreateTrustline}
-                  disabled={operationsDisabled || operationInFlight === 'trust'}
+                  disabled={operationsDisabled}
                 >
-                  {operationInFlight === 'trust' ? 'Creating trustline…' : 'Create Trustline'}
-                </button>
-              </div>
-
-              <div className="action-card">
-                <h3>Supply Collateral</h3>
-                <div className="input-group">
-                  <label htmlFor="supply-pool-id">Pool ID</label>
-                  <input
-                    id="supply-pool-id"
-                    type="text"
-                    placeholder="Pool contract ID"
-                    value={supplyPoolId}
-                    onChange={(e) => setSupplyPoolId(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="supply-asset">Asset address</label>
-                  <input
-                    id="supply-asset"
-                    type="text"
-                    placeholder="Asset contract/address"
-                    value={supplyAsset}
-                    onChange={(e) => setSupplyAsset(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="supply-amount">Amount (integer)</label>
-                  <input
-                    id="supply-amount"
-                    type="text"
-                    placeholder="10000000"
-                    value={supplyAmount}
-                    onChange={(e) => setSupplyAmount(e.currentTarget.value)}
-                  />
-                </div>
-                <button
-                  type="button"
-                  className="primary"
-                  onClick={handleSupply}
-                  disabled={operationsDisabled || operationInFlight === 'supply'}
-                >
-                  {operationInFlight === 'supply' ? 'Supplying…' : 'Submit Supply Operation'}
-                </button>
-              </div>
-
-              <div className="action-card">
-                <h3>Withdraw Collateral</h3>
-                <div className="input-group">
-                  <label htmlFor="withdraw-pool-id">Pool ID</label>
-                  <input
-                    id="withdraw-pool-id"
-                    type="text"
-                    placeholder="Pool contract ID"
-                    value={withdrawPoolId}
-                    onChange={(e) => setWithdrawPoolId(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="withdraw-asset">Asset address</label>
-                  <input
-                    id="withdraw-asset"
-                    type="text"
-                    placeholder="Asset contract/address"
-                    value={withdrawAsset}
-                    onChange={(e) => setWithdrawAsset(e.currentTarget.value)}
-                  />
-                </div>
-                <div className="input-group">
-                  <label htmlFor="withdraw-amount">Amount (integer)</label>
-                  <input
-                    id="withdraw-amount"
-                    type="text"
-                    placeholder="10000000"
-                    value={withdrawAmount}
-                    onChange={(e) => setWithdrawAmount(e.currentTarget.value)}
-                  />
-                </div>
-                <button
-                  type="button"
-                  className="primary"
-                  onClick={handleWithdrawal}
-                  disabled={operationsDisabled || operationInFlight === 'withdraw'}
-                >
-                  {operationInFlight === 'withdraw' ? 'Withdrawing…' : 'Submit Withdrawal Operation'}
+                  Create Trustline
                 </button>
               </div>
 
+              <PoolActionsPanel
+                key={network.id}
+                network={network}
+                pools={pools}
+                walletBalances={walletBalances}
+                disabled={operationsDisabled}
+                inFlight={queueBusy}
+                onSubmit={handlePoolActions}
+                onError={setError}
+              />
             </div>
 
             <button
@@ -826,8 +2164,35 @@ const App = () => {
         )}
 
         {info && <p className="info">{info}</p>}
-        {error && <p className="error">{error}</p>}
+        {error && <ErrorNotice key={String(error)} error={error} />}
+        {error instanceof StuckTransactionError && wallet && (
+          <FeeBumpPrompt
+            network={network}
+            feeSourcePublicKey={wallet.publicKey}
+            signedEnvelope={error.signedEnvelope}
+            inFlight={queueBusy}
+            onResubmit={(level) => void handleFeeBump(error.signedEnvelope, level)}
+          />
+        )}
       </section>
+
+      {toasts.length > 0 && (
+        <div className="toast-stack" role="status" aria-live="polite">
+          {toasts.map((toast) => (
+            <div key={toast.id} className="toast">
+              {toast.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pendingReview && (
+        <TransactionReviewModal
+          summary={pendingReview.summary}
+          onApprove={() => settleReview(true)}
+          onReject={() => settleReview(false)}
+        />
+      )}
     </main>
   );
 };
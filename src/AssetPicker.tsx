@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { StrKey } from 'stellar-sdk';
+
+import { directoryFor } from './assetDirectory';
+import { AssetVerification, verifyAsset } from './assetVerification';
+import type { NetworkProfile } from './networks';
+import { formatStellarError } from './stellarMainnetExample';
+
+type AssetPickerProps = {
+  network: NetworkProfile;
+  /** Prefix for the input ids, so several pickers can share a page. */
+  idPrefix: string;
+  code: string;
+  issuer: string;
+  onChange: (code: string, issuer: string) => void;
+};
+
+const VERIFY_DELAY_MS = 400;
+
+const STATUS_LABELS: Record<AssetVerification['status'], string> = {
+  verified: 'Verified',
+  unverified: 'Unverified',
+  mismatch: 'Mismatch'
+};
+
+const AssetPicker = ({ network, idPrefix, code, issuer, onChange }: AssetPickerProps) => {
+  const [verification, setVerification] = useState<AssetVerification | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const directory = directoryFor(network);
+  const trimmedCode = code.trim();
+  const trimmedIssuer = issuer.trim();
+
+  useEffect(() => {
+    setVerification(null);
+    setCheckError(null);
+    if (!trimmedCode || !StrKey.isValidEd25519PublicKey(trimmedIssuer)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      verifyAsset(network, trimmedCode, trimmedIssuer)
+        .then((result) => {
+          if (!cancelled) {
+            setVerification(result);
+          }
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            setCheckError(formatStellarError(err, 'Unable to verify this asset.'));
+          }
+        });
+    }, VERIFY_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [network, trimmedCode, trimmedIssuer]);
+
+  const selected = directory.find((asset) => asset.code === code && asset.issuer === issuer);
+
+  return (
+    <>
+      {directory.length > 0 && (
+        <div className="input-group">
+          <label htmlFor={`${idPrefix}-directory`}>Known asset</label>
+          <select
+            id={`${idPrefix}-directory`}
+            value={selected ? `${selected.code}:${selected.issuer}` : ''}
+            onChange={(e) => {
+              const asset = directory.find(
+                (entry) => `${entry.code}:${entry.issuer}` === e.currentTarget.value
+              );
+              onChange(asset?.code ?? '', asset?.issuer ?? '');
+            }}
+          >
+            <option value="">Other (enter below)</option>
+            {directory.map((asset) => (
+              <option key={`${asset.code}:${asset.issuer}`} value={`${asset.code}:${asset.issuer}`}>
+                {asset.code} · {asset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="input-group">
+        <label htmlFor={`${idPrefix}-code`}>Asset code</label>
+        <input
+          id={`${idPrefix}-code`}
+          type="text"
+          placeholder="USDC"
+          value={code}
+          onChange={(e) => onChange(e.currentTarget.value, issuer)}
+        />
+      </div>
+      <div className="input-group">
+        <label htmlFor={`${idPrefix}-issuer`}>Asset issuer</label>
+        <input
+          id={`${idPrefix}-issuer`}
+          type="text"
+          placeholder="G...ISSUER"
+          value={issuer}
+          onChange={(e) => onChange(code, e.currentTarget.value)}
+        />
+      </div>
+      {verification && (
+        <div className={`asset-verification ${verification.status}`}>
+          {verification.logo && <img src={verification.logo} alt="" />}
+          <span>
+            <strong>{STATUS_LABELS[verification.status]}</strong>
+            {verification.name ? ` · ${verification.name}` : ''}
+            {verification.homeDomain ? ` · ${verification.homeDomain}` : ''}
+          </span>
+          <span className="field-hint">{verification.message}</span>
+        </div>
+      )}
+      {checkError && <p className="field-hint">{checkError}</p>}
+    </>
+  );
+};
+
+export default AssetPicker;
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+
+import { AssetVerification, verifyAsset } from './assetVerification';
+import type { ClaimableBalance } from './claimableBalances';
+import type { NetworkProfile } from './networks';
+
+type ClaimableBalancesPanelProps = {
+  network: NetworkProfile;
+  balances: ClaimableBalance[];
+  /** Whether the wallet already holds a trustline for the balance's asset. */
+  hasTrustline: (balance: ClaimableBalance) => boolean;
+  disabled: boolean;
+  inFlight: boolean;
+  onClaim: (balance: ClaimableBalance) => void;
+  onRefresh: () => void;
+};
+
+const STATUS_LABELS: Record<AssetVerification['status'], string> = {
+  verified: 'Verified',
+  unverified: 'Unverified',
+  mismatch: 'Mismatch'
+};
+
+const assetKey = (balance: ClaimableBalance) => `${balance.assetCode}:${balance.assetIssuer}`;
+
+const ClaimableBalancesPanel = ({
+  network,
+  balances,
+  hasTrustline,
+  disabled,
+  inFlight,
+  onClaim,
+  onRefresh
+}: ClaimableBalancesPanelProps) => {
+  const [verifications, setVerifications] = useState<Record<string, AssetVerification>>({});
+
+  // Anyone can send a claimable balance, so check each issued asset before
+  // offering to add its trustline.
+  useEffect(() => {
+    setVerifications({});
+    const issued = new Map(
+      balances
+        .filter((balance) => balance.assetIssuer)
+        .map((balance) => [assetKey(balance), balance] as const)
+    );
+
+    let cancelled = false;
+    issued.forEach((balance, key) => {
+      verifyAsset(network, balance.assetCode, balance.assetIssuer as string)
+        .then((result) => {
+          if (!cancelled) {
+            setVerifications((current) => ({ ...current, [key]: result }));
+          }
+        })
+        .catch((err) => console.warn(`Unable to verify ${balance.assetCode}`, err));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, balances]);
+
+  if (balances.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="claimable-card">
+      <div className="metrics-header">
+        <h2>Claimable Balances</h2>
+        <button type="button" className="secondary" onClick={onRefresh} disabled={inFlight}>
+          Refresh
+        </button>
+      </div>
+      <ul className="claimable-list">
+        {balances.map((balance) => {
+          const verification = balance.assetIssuer ? verifications[assetKey(balance)] : undefined;
+          const mismatch = verification?.status === 'mismatch';
+          return (
+            <li key={balance.id}>
+              <div>
+                <strong>
+                  {balance.amount} {balance.assetCode}
+                </strong>
+                <span className="field-hint">
+                  {balance.window}
+                  {balance.sponsor && ` · reserve sponsored by ${balance.sponsor.slice(0, 6)}…`}
+                </span>
+                {verification && (
+                  <div className={`asset-verification ${verification.status}`}>
+                    <span>
+                      <strong>{STATUS_LABELS[verification.status]}</strong>
+                      {verification.homeDomain ? ` · ${verification.homeDomain}` : ''}
+                    </span>
+                    <span className="field-hint">{verification.message}</span>
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                className="primary"
+                onClick={() => onClaim(balance)}
+                disabled={disabled || inFlight || !balance.claimableNow || mismatch}
+              >
+                {!balance.claimableNow
+                  ? 'Not claimable now'
+                  : mismatch
+                  ? 'Asset mismatch'
+                  : hasTrustline(balance)
+                  ? 'Claim'
+                  : 'Add Trustline & Claim'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ClaimableBalancesPanel;
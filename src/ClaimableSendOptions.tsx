@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { StrKey } from 'stellar-sdk';
+
+import {
+  CLAIM_WINDOWS,
+  ClaimTerms,
+  ClaimWindow,
+  DeliveryCheck,
+  checkDirectDelivery
+} from './claimableBalances';
+import { baseAccountOf, isMuxedAddress } from './memos';
+import type { NetworkProfile } from './networks';
+
+type ClaimableSendOptionsProps = {
+  network: NetworkProfile;
+  /** Prefix for the input ids, so several forms can share a page. */
+  idPrefix: string;
+  destination: string;
+  assetCode: string;
+  assetIssuer: string;
+  amount: string;
+  terms: ClaimTerms;
+  /** Whether the user agreed to send a claimable balance instead of a payment. */
+  confirmed: boolean;
+  onChange: (terms: ClaimTerms) => void;
+  onConfirmChange: (confirmed: boolean) => void;
+};
+
+const CHECK_DELAY_MS = 400;
+
+const toDateTimeInput = (at?: number) => {
+  if (at === undefined) {
+    return '';
+  }
+  const date = new Date(at);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+/**
+ * Checks whether the destination can receive the amount directly and, when
+ * it cannot, explains that the payment would become a claimable balance,
+ * lets the user set when it can be claimed and asks them to confirm it.
+ */
+const ClaimableSendOptions = ({
+  network,
+  idPrefix,
+  destination,
+  assetCode,
+  assetIssuer,
+  amount,
+  terms,
+  confirmed,
+  onChange,
+  onConfirmChange
+}: ClaimableSendOptionsProps) => {
+  const [delivery, setDelivery] = useState<DeliveryCheck | null>(null);
+  const trimmedDestination = destination.trim();
+  const trimmedCode = assetCode.trim();
+  const trimmedIssuer = assetIssuer.trim();
+  const trimmedAmount = amount.trim();
+
+  useEffect(() => {
+    setDelivery(null);
+    onConfirmChange(false);
+    const validDestination =
+      StrKey.isValidEd25519PublicKey(trimmedDestination) || isMuxedAddress(trimmedDestination);
+    if (!validDestination || !trimmedCode || !StrKey.isValidEd25519PublicKey(trimmedIssuer)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      checkDirectDelivery(
+        network,
+        baseAccountOf(trimmedDestination),
+        trimmedCode,
+        trimmedIssuer,
+        trimmedAmount || undefined
+      )
+        .then((result) => {
+          if (!cancelled) {
+            setDelivery(result);
+          }
+        })
+        .catch((err) => console.warn('Unable to check whether the destination can receive', err));
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [network, trimmedDestination, trimmedCode, trimmedIssuer, trimmedAmount, onConfirmChange]);
+
+  if (!delivery || delivery.direct) {
+    return null;
+  }
+
+  return (
+    <div className="claimable-options">
+      <p className="memo-warning">
+        {delivery.reason} The payment will be sent as a claimable balance that the recipient can
+        claim once they are able to hold {trimmedCode}.
+      </p>
+      <div className="input-group">
+        <label htmlFor={`${idPrefix}-claim-window`}>Recipient can claim</label>
+        <div className="field-row">
+          <select
+            id={`${idPrefix}-claim-window`}
+            value={terms.window}
+            onChange={(e) => onChange({ ...terms, window: e.currentTarget.value as ClaimWindow })}
+          >
+            {Object.entries(CLAIM_WINDOWS).map(([value, definition]) => (
+              <option key={value} value={value}>
+                {definition.label}
+              </option>
+            ))}
+          </select>
+          {terms.window !== 'anytime' && (
+            <input
+              aria-label="Claim date"
+              type="datetime-local"
+              value={toDateTimeInput(terms.at)}
+              onChange={(e) => {
+                const value = e.currentTarget.value;
+                onChange({ ...terms, at: value ? new Date(value).getTime() : undefined });
+              }}
+            />
+          )}
+        </div>
+      </div>
+      <label className="claimable-reclaim">
+        <input
+          type="checkbox"
+          checked={terms.reclaimable}
+          onChange={(e) => onChange({ ...terms, reclaimable: e.currentTarget.checked })}
+        />
+        {terms.window === 'anytime'
+          ? 'Let me take it back until it is claimed'
+          : terms.window === 'before'
+          ? 'Let me take it back if it is not claimed in time'
+          : 'Let me take it back before the recipient can claim it'}
+      </label>
+      <label className="claimable-reclaim">
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => onConfirmChange(e.currentTarget.checked)}
+        />
+        Send it as a claimable balance
+      </label>
+    </div>
+  );
+};
+
+export default ClaimableSendOptions;
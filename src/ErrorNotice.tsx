@@ -0,0 +1,32 @@
+import { useState } from 'react';
+
+import { StellarError } from './stellarErrors';
+
+type ErrorNoticeProps = {
+  error: string | StellarError;
+};
+
+const ErrorNotice = ({ error }: ErrorNoticeProps) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const details = error instanceof StellarError ? error.technicalDetails : undefined;
+
+  return (
+    <div className="error">
+      <p>{error instanceof StellarError ? error.message : error}</p>
+      {details && (
+        <>
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => setShowDetails((prev) => !prev)}
+          >
+            {showDetails ? 'Hide technical details' : 'Show technical details'}
+          </button>
+          {showDetails && <pre className="error-details">{details}</pre>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
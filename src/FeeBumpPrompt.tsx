@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+
+import { FEE_LEVELS, FeeLevel, buildFeeBumpTransaction } from './feeStrategy';
+import type { NetworkProfile } from './networks';
+import { formatStroops } from './transactionReview';
+
+type FeeBumpPromptProps = {
+  network: NetworkProfile;
+  feeSourcePublicKey: string;
+  signedEnvelope: string;
+  inFlight: boolean;
+  onResubmit: (level: FeeLevel) => void;
+};
+
+const FeeBumpPrompt = ({
+  network,
+  feeSourcePublicKey,
+  signedEnvelope,
+  inFlight,
+  onResubmit
+}: FeeBumpPromptProps) => {
+  const [level, setLevel] = useState<FeeLevel>('priority');
+  const [maxFee, setMaxFee] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMaxFee(null);
+    buildFeeBumpTransaction(network, feeSourcePublicKey, signedEnvelope, level)
+      .then((feeBump) => {
+        if (!cancelled) {
+          setMaxFee(feeBump.fee);
+        }
+      })
+      .catch((err) => console.warn('Unable to estimate the fee bump', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [network, feeSourcePublicKey, signedEnvelope, level]);
+
+  return (
+    <div className="fee-bump">
+      <div className="field-row">
+        <select
+          aria-label="Fee level for resubmission"
+          value={level}
+          onChange={(e) => setLevel(e.currentTarget.value as FeeLevel)}
+          disabled={inFlight}
+        >
+          {Object.entries(FEE_LEVELS).map(([value, definition]) => (
+            <option key={value} value={value}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="primary" onClick={() => onResubmit(level)} disabled={inFlight}>
+          {inFlight ? 'Resubmitting…' : 'Resubmit with higher fee'}
+        </button>
+      </div>
+      <p className="field-hint">
+        {maxFee ? `Maximum fee: ${formatStroops(maxFee)}. ` : ''}
+        Only the fee-bump envelope is signed; the original transaction is reused unchanged.
+      </p>
+    </div>
+  );
+};
+
+export default FeeBumpPrompt;
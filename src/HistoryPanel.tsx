@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { HistoryEntry, HistoryEntryType, fetchAccountHistory } from './history';
+import type { NetworkProfile } from './networks';
+import { StellarError, toStellarError } from './stellarErrors';
+import ErrorNotice from './ErrorNotice';
+
+type HistoryPanelProps = {
+  network: NetworkProfile;
+  accountId: string;
+};
+
+const TYPE_LABELS: Record<HistoryEntryType, string> = {
+  payment: 'Payments',
+  trustline: 'Trustlines',
+  contract: 'Contract calls',
+  account_created: 'Account creation',
+  other: 'Other'
+};
+
+const shorten = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+const HistoryPanel = ({ network, accountId }: HistoryPanelProps) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [historyInFlight, setHistoryInFlight] = useState(false);
+  const [historyError, setHistoryError] = useState<StellarError | null>(null);
+  const [typeFilter, setTypeFilter] = useState<HistoryEntryType | 'all'>('all');
+  const [assetFilter, setAssetFilter] = useState('all');
+  /** Only the latest request may update the list, so a slow page can't land on another account. */
+  const latestRequest = useRef(0);
+
+  const loadHistory = useCallback(
+    async (cursor?: string) => {
+      const request = ++latestRequest.current;
+      setHistoryInFlight(true);
+      setHistoryError(null);
+      try {
+        const page = await fetchAccountHistory(network, accountId, { cursor });
+        if (request !== latestRequest.current) {
+          return;
+        }
+        setEntries((prev) => (cursor ? [...prev, ...page.entries] : page.entries));
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        if (request !== latestRequest.current) {
+          return;
+        }
+        console.error('Unable to load account history', err);
+        setHistoryError(toStellarError(err, 'Unable to load account history.'));
+      } finally {
+        if (request === latestRequest.current) {
+          setHistoryInFlight(false);
+        }
+      }
+    },
+    [network, accountId]
+  );
+
+  useEffect(() => {
+    setEntries([]);
+    setNextCursor(undefined);
+    void loadHistory();
+  }, [loadHistory]);
+
+  const assetOptions = useMemo(
+    () =>
+      Array.from(new Set(entries.flatMap((entry) => entry.amounts.map((amount) => amount.assetCode)))).sort(),
+    [entries]
+  );
+
+  const visibleEntries = entries.filter(
+    (entry) =>
+      (typeFilter === 'all' || entry.type === typeFilter) &&
+      (assetFilter === 'all' || entry.amounts.some((amount) => amount.assetCode === assetFilter))
+  );
+
+  return (
+    <div className="history-card">
+      <div className="metrics-header">
+        <h2>History</h2>
+        <button
+          type="button"
+          className="primary"
+          onClick={() => void loadHistory()}
+          disabled={historyInFlight}
+        >
+          {historyInFlight ? 'Loading…' : 'Refresh'}
+        </button>
+      </div>
+
+      <div className="history-filters">
+        <select
+          aria-label="Filter by type"
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.currentTarget.value as HistoryEntryType | 'all')}
+        >
+          <option value="all">All types</option>
+          {Object.entries(TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by asset"
+          value={assetFilter}
+          onChange={(e) => setAssetFilter(e.currentTarget.value)}
+        >
+          <option value="all">All assets</option>
+          {assetOptions.map((asset) => (
+            <option key={asset} value={asset}>
+              {asset}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visibleEntries.length > 0 ? (
+        <ul className="history-list">
+          {visibleEntries.map((entry) => (
+            <li key={entry.id} className={`history-item${entry.successful ? '' : ' failed'}`}>
+              <div className="history-main">
+                <span className="history-title">
+                  {entry.title}
+                  {!entry.successful && ' (failed)'}
+                </span>
+                <span className="history-meta">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.counterparty && ` · ${shorten(entry.counterparty)}`}
+                  {entry.details && ` · ${entry.details}`}
+                </span>
+              </div>
+              <div className="history-amounts">
+                {entry.amounts.map((amount, index) => (
+                  <span key={`${amount.assetCode}-${index}`} className={`history-amount ${entry.direction ?? ''}`}>
+                    {amount.amount !== undefined && `${entry.direction === 'out' ? '-' : ''}${amount.amount} `}
+                    {amount.assetCode}
+                  </span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="metrics-placeholder">
+          {historyInFlight ? 'Loading history…' : 'No matching activity yet.'}
+        </p>
+      )}
+
+      {nextCursor && (
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => void loadHistory(nextCursor)}
+          disabled={historyInFlight}
+        >
+          {historyInFlight ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+
+      {historyError && <ErrorNotice error={historyError} />}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { StrKey } from 'stellar-sdk';
+
+import {
+  MEMO_TYPES,
+  MemoInput,
+  MemoRequirement,
+  MemoType,
+  baseAccountOf,
+  checkMemoRequirement,
+  isMuxedAddress
+} from './memos';
+import type { NetworkProfile } from './networks';
+
+type MemoFieldsProps = {
+  network: NetworkProfile;
+  /** Prefix for the input ids, so several forms can share a page. */
+  idPrefix: string;
+  destination: string;
+  memo: MemoInput;
+  onChange: (memo: MemoInput) => void;
+};
+
+const CHECK_DELAY_MS = 400;
+
+const MemoFields = ({ network, idPrefix, destination, memo, onChange }: MemoFieldsProps) => {
+  const [requirement, setRequirement] = useState<MemoRequirement | null>(null);
+  const trimmedDestination = destination.trim();
+
+  useEffect(() => {
+    setRequirement(null);
+    if (!StrKey.isValidEd25519PublicKey(trimmedDestination)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      checkMemoRequirement(network, trimmedDestination)
+        .then((result) => {
+          if (!cancelled) {
+            setRequirement(result);
+          }
+        })
+        .catch((err) => console.warn('Unable to check whether the destination needs a memo', err));
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [network, trimmedDestination]);
+
+  const missingMemo = requirement?.required && (memo.type === 'none' || !memo.value.trim());
+
+  return (
+    <>
+      <div className="input-group">
+        <label htmlFor={`${idPrefix}-memo-type`}>Memo</label>
+        <div className="field-row">
+          <select
+            id={`${idPrefix}-memo-type`}
+            value={memo.type}
+            onChange={(e) => onChange({ ...memo, type: e.currentTarget.value as MemoType })}
+          >
+            {Object.entries(MEMO_TYPES).map(([value, definition]) => (
+              <option key={value} value={value}>
+                {definition.label}
+              </option>
+            ))}
+          </select>
+          {memo.type !== 'none' && (
+            <input
+              aria-label="Memo value"
+              type="text"
+              placeholder={MEMO_TYPES[memo.type].placeholder}
+              value={memo.value}
+              onChange={(e) => onChange({ ...memo, value: e.currentTarget.value })}
+            />
+          )}
+        </div>
+        {isMuxedAddress(trimmedDestination) && (
+          <p className="field-hint">
+            Muxed address for account {baseAccountOf(trimmedDestination).slice(0, 6)}…; no memo
+            needed.
+          </p>
+        )}
+      </div>
+      {missingMemo && (
+        <p className="memo-warning">
+          {requirement?.service ?? 'This destination'} requires a memo. Payments without one may
+          be lost; sending is blocked until you add it.
+        </p>
+      )}
+    </>
+  );
+};
+
+export default MemoFields;
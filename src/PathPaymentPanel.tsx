@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Asset, Memo } from 'stellar-sdk';
+
+import { EMPTY_MEMO, MemoInput, parseMemo } from './memos';
+import MemoFields from './MemoFields';
+import type { NetworkProfile } from './networks';
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  MAX_SLIPPAGE_BPS,
+  PathMode,
+  PathQuote,
+  assetCodeOf,
+  describeRoute,
+  findPaymentPaths,
+  quoteRate,
+  slippageBound
+} from './pathPayments';
+import { ValidationError } from './stellarErrors';
+import { WalletBalance, formatStellarError } from './stellarMainnetExample';
+
+type PathPaymentPanelProps = {
+  network: NetworkProfile;
+  walletBalances: WalletBalance[];
+  disabled: boolean;
+  inFlight: boolean;
+  onSubmit: (
+    destination: string,
+    quote: PathQuote,
+    slippageBps: number,
+    memo?: Memo
+  ) => Promise<void>;
+  onError: (message: string) => void;
+};
+
+const NATIVE_KEY = 'native';
+
+const balanceKey = (balance: WalletBalance) =>
+  balance.assetType === 'native' ? NATIVE_KEY : `${balance.assetCode}:${balance.assetIssuer}`;
+
+const assetFromKey = (key: string): Asset => {
+  if (key === NATIVE_KEY) {
+    return Asset.native();
+  }
+  const [code, issuer] = key.split(':');
+  return new Asset(code, issuer);
+};
+
+const parseSlippage = (percent: string): number => {
+  const bps = Math.round(Number(percent) * 100);
+  if (!Number.isFinite(bps) || bps < 0 || bps > MAX_SLIPPAGE_BPS) {
+    throw new ValidationError(`Slippage must be between 0% and ${MAX_SLIPPAGE_BPS / 100}%.`);
+  }
+  return bps;
+};
+
+const PathPaymentPanel = ({
+  network,
+  walletBalances,
+  disabled,
+  inFlight,
+  onSubmit,
+  onError
+}: PathPaymentPanelProps) => {
+  const [mode, setMode] = useState<PathMode>('strict-send');
+  const [sendKey, setSendKey] = useState(NATIVE_KEY);
+  const [destination, setDestination] = useState('');
+  const [memo, setMemo] = useState<MemoInput>(EMPTY_MEMO);
+  const [destCode, setDestCode] = useState('');
+  const [destIssuer, setDestIssuer] = useState('');
+  const [amount, setAmount] = useState('');
+  const [slippage, setSlippage] = useState(String(DEFAULT_SLIPPAGE_BPS / 100));
+  const [quotes, setQuotes] = useState<PathQuote[]>([]);
+  const [selectedQuote, setSelectedQuote] = useState(0);
+  const [searching, setSearching] = useState(false);
+
+  const holdings = walletBalances.filter((balance) => balance.assetType !== 'liquidity_pool_shares');
+
+  /** Any edit invalidates the quotes, which were priced for the old inputs. */
+  const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setQuotes([]);
+  };
+
+  const destinationAsset = (): Asset => {
+    const code = destCode.trim();
+    if (code.toUpperCase() === 'XLM' && !destIssuer.trim()) {
+      return Asset.native();
+    }
+    if (!code || !destIssuer.trim()) {
+      throw new ValidationError('Enter the asset code and issuer the recipient should receive.');
+    }
+    return new Asset(code, destIssuer.trim());
+  };
+
+  const handleFindPaths = async () => {
+    setSearching(true);
+    try {
+      const found = await findPaymentPaths(network, {
+        mode,
+        sendAsset: assetFromKey(sendKey),
+        destAsset: destinationAsset(),
+        amount
+      });
+      setQuotes(found);
+      setSelectedQuote(0);
+      if (found.length === 0) {
+        onError('No route found between these assets for this amount.');
+      }
+    } catch (err) {
+      onError(formatStellarError(err, 'Unable to find payment paths. Inspect console for details.'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const quote = quotes[selectedQuote];
+    if (!quote) {
+      onError('Find a route before sending.');
+      return;
+    }
+    if (!destination.trim()) {
+      onError('Enter the destination public key.');
+      return;
+    }
+
+    let slippageBps: number;
+    try {
+      slippageBps = parseSlippage(slippage);
+    } catch (err) {
+      onError(formatStellarError(err, 'Check the slippage tolerance.'));
+      return;
+    }
+    let parsedMemo: Memo | undefined;
+    try {
+      parsedMemo = parseMemo(memo);
+    } catch (err) {
+      onError(formatStellarError(err, 'Check the memo and try again.'));
+      return;
+    }
+
+    await onSubmit(destination.trim(), quote, slippageBps, parsedMemo);
+  };
+
+  const boundFor = (quote: PathQuote) => {
+    try {
+      const bound = slippageBound(quote, parseSlippage(slippage));
+      return quote.mode === 'strict-send'
+        ? `Receive at least ${bound} ${assetCodeOf(quote.destAsset)}`
+        : `Spend at most ${bound} ${assetCodeOf(quote.sendAsset)}`;
+    } catch (err) {
+      return err instanceof Error ? err.message : null;
+    }
+  };
+
+  return (
+    <div className="action-card path-payment">
+      <h3>Cross-Asset Payment</h3>
+      <div className="input-group">
+        <label htmlFor="path-mode">Amount is</label>
+        <select
+          id="path-mode"
+          value={mode}
+          onChange={(e) => edit(setMode)(e.currentTarget.value as PathMode)}
+        >
+          <option value="strict-send">Exact amount I send</option>
+          <option value="strict-receive">Exact amount they receive</option>
+        </select>
+      </div>
+      <div className="input-group">
+        <label htmlFor="path-send-asset">Pay with</label>
+        <select
+          id="path-send-asset"
+          value={sendKey}
+          onChange={(e) => edit(setSendKey)(e.currentTarget.value)}
+        >
+          {holdings.length === 0 && <option value={NATIVE_KEY}>XLM</option>}
+          {holdings.map((balance) => (
+            <option key={balanceKey(balance)} value={balanceKey(balance)}>
+              {balance.assetType === 'native' ? 'XLM' : balance.assetCode} ({balance.balance})
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="input-group">
+        <label htmlFor="path-destination">Destination public key</label>
+        <input
+          id="path-destination"
+          type="text"
+          placeholder="G..."
+          value={destination}
+          onChange={(e) => setDestination(e.currentTarget.value)}
+        />
+      </div>
+      <MemoFields
+        network={network}
+        idPrefix="path"
+        destination={destination}
+        memo={memo}
+        onChange={setMemo}
+      />
+      <div className="input-group">
+        <label htmlFor="path-dest-code">Recipient receives (asset code)</label>
+        <input
+          id="path-dest-code"
+          type="text"
+          placeholder="USDC or XLM"
+          value={destCode}
+          onChange={(e) => edit(setDestCode)(e.currentTarget.value)}
+        />
+      </div>
+      <div className="input-group">
+        <label htmlFor="path-dest-issuer">Asset issuer (blank for XLM)</label>
+        <input
+          id="path-dest-issuer"
+          type="text"
+          placeholder="G..."
+          value={destIssuer}
+          onChange={(e) => edit(setDestIssuer)(e.currentTarget.value)}
+        />
+      </div>
+      <div className="input-group">
+        <label htmlFor="path-amount">
+          {mode === 'strict-send' ? 'Amount to send' : 'Amount to deliver'}
+        </label>
+        <input
+          id="path-amount"
+          type="text"
+          inputMode="decimal"
+          placeholder="10.5"
+          value={amount}
+          onChange={(e) => edit(setAmount)(e.currentTarget.value)}
+        />
+      </div>
+      <div className="input-group">
+        <label htmlFor="path-slippage">Slippage tolerance (%)</label>
+        <input
+          id="path-slippage"
+          type="text"
+          inputMode="decimal"
+          value={slippage}
+          onChange={(e) => setSlippage(e.currentTarget.value)}
+        />
+      </div>
+      <button
+        type="button"
+        className="secondary"
+        onClick={handleFindPaths}
+        disabled={searching || !amount.trim() || !destCode.trim()}
+      >
+        {searching ? 'Searching…' : 'Find Routes'}
+      </button>
+
+      {quotes.length > 0 && (
+        <ul className="path-quotes">
+          {quotes.map((quote, index) => (
+            <li key={`${describeRoute(quote)}-${quote.sendAmount}-${quote.destAmount}`}>
+              <label>
+                <input
+                  type="radio"
+                  name="path-quote"
+                  checked={selectedQuote === index}
+                  onChange={() => setSelectedQuote(index)}
+                />
+                <span className="path-route">{describeRoute(quote)}</span>
+              </label>
+              <span>
+                {quote.sendAmount} {assetCodeOf(quote.sendAsset)} → {quote.destAmount}{' '}
+                {assetCodeOf(quote.destAsset)}
+              </span>
+              <span className="field-hint">
+                Rate 1 {assetCodeOf(quote.sendAsset)} = {quoteRate(quote).toPrecision(6)}{' '}
+                {assetCodeOf(quote.destAsset)} · {boundFor(quote)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        className="primary"
+        onClick={handleSubmit}
+        disabled={disabled || quotes.length === 0}
+      >
+        {inFlight ? 'Sending…' : 'Send Path Payment'}
+      </button>
+    </div>
+  );
+};
+
+export default PathPaymentPanel;
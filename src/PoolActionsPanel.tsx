@@ -0,0 +1,347 @@
+import { useState } from 'react';
+
+import { decimalToUnits, formatUnits, parseDecimalAmount, truncateDecimal } from './amounts';
+import { POOL_ACTIONS, PoolAction, PoolActionType } from './blendRequests';
+import { PositionSimulation, RiskLevel, simulatePoolActions } from './healthSimulator';
+import type { NetworkProfile } from './networks';
+import type { PoolRegistryEntry } from './poolRegistry';
+import { ValidationError } from './stellarErrors';
+import {
+  WalletBalance,
+  balanceContractId,
+  formatStellarError,
+  spendableBalance
+} from './stellarMainnetExample';
+import PositionPreview from './PositionPreview';
+
+type DraftAction = {
+  key: number;
+  type: PoolActionType;
+  asset: string;
+  amount: string;
+};
+
+type PoolActionsPanelProps = {
+  network: NetworkProfile;
+  pools: PoolRegistryEntry[];
+  walletBalances: WalletBalance[];
+  disabled: boolean;
+  inFlight: boolean;
+  onSubmit: (poolId: string, actions: PoolAction[]) => Promise<void>;
+  onError: (message: string) => void;
+};
+
+let nextDraftKey = 0;
+
+const createDraft = (type: PoolActionType = 'supplyCollateral'): DraftAction => ({
+  key: nextDraftKey++,
+  type,
+  asset: '',
+  amount: ''
+});
+
+const PoolActionsPanel = ({
+  network,
+  pools,
+  walletBalances,
+  disabled,
+  inFlight,
+  onSubmit,
+  onError
+}: PoolActionsPanelProps) => {
+  const [selectedPoolId, setSelectedPoolId] = useState('');
+  const [drafts, setDrafts] = useState<DraftAction[]>(() => [createDraft()]);
+  const [riskAcknowledged, setRiskAcknowledged] = useState(false);
+
+  const loadedPools = pools.filter((entry) => entry.snapshot);
+  const selectedPool =
+    loadedPools.find((entry) => entry.id === selectedPoolId) ?? loadedPools[0];
+  const poolSnapshot = selectedPool?.snapshot;
+
+  const findReserve = (assetId: string) => poolSnapshot?.pool.reserves.get(assetId);
+
+  /**
+   * Converts a decimal amount into contract units using the reserve's
+   * decimals from the loaded pool snapshot.
+   */
+  const toContractAmount = (draft: DraftAction) => {
+    const reserve = findReserve(draft.asset);
+    if (!reserve) {
+      throw new ValidationError('Pick a reserve of the selected pool.');
+    }
+    const decimals = reserve.config.decimals;
+    return { units: parseDecimalAmount(draft.amount, decimals), decimals };
+  };
+
+  const describeContractAmount = (draft: DraftAction) => {
+    if (!draft.asset || !draft.amount.trim()) {
+      return null;
+    }
+    try {
+      const { units, decimals } = toContractAmount(draft);
+      return `= ${units.toString()} contract units (${formatUnits(units, decimals)} at ${decimals} decimals)`;
+    } catch (err) {
+      return err instanceof Error ? err.message : null;
+    }
+  };
+
+  const toAction = (draft: DraftAction): PoolAction => {
+    if (!draft.asset || !draft.amount.trim()) {
+      throw new ValidationError('Every action needs a reserve and an amount.');
+    }
+    return { type: draft.type, asset: draft.asset, amount: toContractAmount(draft).units };
+  };
+
+  /**
+   * Simulates every draft that already converts cleanly, so the preview
+   * follows the form while the user is still typing.
+   */
+  const simulateDrafts = (): { simulation?: PositionSimulation; error?: string } => {
+    if (!poolSnapshot) {
+      return {};
+    }
+    const actions = drafts.flatMap((draft) => {
+      try {
+        return [toAction(draft)];
+      } catch {
+        return [];
+      }
+    });
+    if (actions.length === 0) {
+      return {};
+    }
+    try {
+      return { simulation: simulatePoolActions(poolSnapshot, actions) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Unable to simulate these actions.' };
+    }
+  };
+
+  const updateDraft = (key: number, changes: Partial<DraftAction>) => {
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+    setRiskAcknowledged(false);
+  };
+
+  const walletUnits = (assetId: string, decimals: number) => {
+    const balance = walletBalances.find((entry) => balanceContractId(entry, network) === assetId);
+    return balance
+      ? decimalToUnits(truncateDecimal(spendableBalance(balance), decimals), decimals)
+      : 0n;
+  };
+
+  const maxUnitsFor = (draft: DraftAction): bigint | null => {
+    const reserve = findReserve(draft.asset);
+    if (!reserve || !poolSnapshot) {
+      return null;
+    }
+    const { poolUser } = poolSnapshot;
+    const decimals = reserve.config.decimals;
+
+    switch (draft.type) {
+      case 'supply':
+      case 'supplyCollateral':
+        return walletUnits(reserve.assetId, decimals);
+      case 'repay': {
+        const owed = poolUser.getLiabilities(reserve);
+        const held = walletUnits(reserve.assetId, decimals);
+        return owed < held ? owed : held;
+      }
+      case 'withdraw':
+        return poolUser.getSupply(reserve);
+      case 'withdrawCollateral':
+        return poolUser.getCollateral(reserve);
+      case 'borrow':
+        return null;
+    }
+  };
+
+  const handleMax = (draft: DraftAction) => {
+    const units = maxUnitsFor(draft);
+    const reserve = findReserve(draft.asset);
+    if (units === null || !reserve) {
+      onError('Load the pool and pick a reserve asset before using Max.');
+      return;
+    }
+    if (units <= 0n) {
+      onError(`Nothing available to ${POOL_ACTIONS[draft.type].label.toLowerCase()} for this asset.`);
+      return;
+    }
+    updateDraft(draft.key, { amount: formatUnits(units, reserve.config.decimals) });
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedPool || !poolSnapshot) {
+      onError('Load the Blend pools before submitting pool actions.');
+      return;
+    }
+
+    let actions: PoolAction[];
+    try {
+      actions = drafts.map(toAction);
+    } catch (err) {
+      onError(formatStellarError(err, 'Check the pool actions and try again.'));
+      return;
+    }
+
+    let risk: RiskLevel;
+    try {
+      ({ risk } = simulatePoolActions(poolSnapshot, actions));
+    } catch (err) {
+      onError(formatStellarError(err, 'Unable to simulate these actions.'));
+      return;
+    }
+    if (risk === 'blocked') {
+      onError('These actions would make your position liquidatable. Reduce the amounts and try again.');
+      return;
+    }
+    if (risk === 'warning' && !riskAcknowledged) {
+      onError('Confirm that you understand the liquidation risk before submitting.');
+      return;
+    }
+
+    await onSubmit(selectedPool.id, actions);
+  };
+
+  const { simulation, error: simulationError } = simulateDrafts();
+
+  return (
+    <div className="action-card pool-actions">
+      <h3>Pool Actions</h3>
+      <p className="note">
+        Actions are submitted together in one atomic transaction, e.g. supply collateral and
+        borrow against it.
+      </p>
+      <div className="input-group">
+        <label htmlFor="pool-actions-pool">Pool</label>
+        <select
+          id="pool-actions-pool"
+          value={selectedPool?.id ?? ''}
+          onChange={(e) => {
+            setSelectedPoolId(e.currentTarget.value);
+            setDrafts([createDraft()]);
+            setRiskAcknowledged(false);
+          }}
+          disabled={loadedPools.length === 0}
+        >
+          {loadedPools.length === 0 && <option value="">No pools loaded</option>}
+          {loadedPools.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {drafts.map((draft, index) => {
+        const hint = describeContractAmount(draft);
+        return (
+          <div key={draft.key} className="pool-action-row">
+            <div className="input-group">
+              <label htmlFor={`pool-action-type-${draft.key}`}>Action {index + 1}</label>
+              <select
+                id={`pool-action-type-${draft.key}`}
+                value={draft.type}
+                onChange={(e) =>
+                  updateDraft(draft.key, { type: e.currentTarget.value as PoolActionType })
+                }
+              >
+                {Object.entries(POOL_ACTIONS).map(([value, definition]) => (
+                  <option key={value} value={value}>
+                    {definition.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor={`pool-action-asset-${draft.key}`}>Reserve</label>
+              <select
+                id={`pool-action-asset-${draft.key}`}
+                value={draft.asset}
+                onChange={(e) => updateDraft(draft.key, { asset: e.currentTarget.value })}
+                disabled={!selectedPool}
+              >
+                <option value="">Select a reserve</option>
+                {selectedPool?.reserves.map((reserve) => (
+                  <option key={reserve.assetId} value={reserve.assetId}>
+                    {reserve.symbol}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor={`pool-action-amount-${draft.key}`}>Amount</label>
+              <div className="field-row">
+                <input
+                  id={`pool-action-amount-${draft.key}`}
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="100.50"
+                  value={draft.amount}
+                  onChange={(e) => updateDraft(draft.key, { amount: e.currentTarget.value })}
+                />
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => handleMax(draft)}
+                  disabled={disabled || draft.type === 'borrow'}
+                >
+                  Max
+                </button>
+              </div>
+              {hint && <p className="field-hint">{hint}</p>}
+            </div>
+            {drafts.length > 1 && (
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => {
+                  setDrafts((prev) => prev.filter((entry) => entry.key !== draft.key));
+                  setRiskAcknowledged(false);
+                }}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {simulation && <PositionPreview simulation={simulation} />}
+      {simulationError && <p className="field-hint">{simulationError}</p>}
+      {simulation?.risk === 'warning' && (
+        <label className="risk-acknowledgement">
+          <input
+            type="checkbox"
+            checked={riskAcknowledged}
+            onChange={(e) => setRiskAcknowledged(e.currentTarget.checked)}
+          />
+          I understand this position could be liquidated.
+        </label>
+      )}
+
+      <div className="pool-actions-footer">
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => {
+            setDrafts((prev) => [...prev, createDraft('borrow')]);
+            setRiskAcknowledged(false);
+          }}
+          disabled={inFlight}
+        >
+          Add Action
+        </button>
+        <button
+          type="button"
+          className="primary"
+          onClick={handleSubmit}
+          disabled={disabled || Boolean(simulationError) || simulation?.risk === 'blocked'}
+        >
+          {inFlight ? 'Submitting…' : 'Submit Pool Actions'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PoolActionsPanel;
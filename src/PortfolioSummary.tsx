@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+
+import type { NetworkProfile } from './networks';
+import type { PoolRegistryEntry } from './poolRegistry';
+import {
+  FIATS,
+  Fiat,
+  Portfolio,
+  PriceSource,
+  buildPortfolio,
+  formatFiat,
+  loadStoredFiat,
+  persistFiat
+} from './pricing';
+import type { WalletBalance } from './stellarMainnetExample';
+
+type PortfolioSummaryProps = {
+  network: NetworkProfile;
+  balances: WalletBalance[];
+  pools: PoolRegistryEntry[];
+};
+
+const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  oracle: 'Blend oracle',
+  dex: 'DEX mid-price',
+  stablecoin: 'Stablecoin'
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 7 });
+
+const PortfolioSummary = ({ network, balances, pools }: PortfolioSummaryProps) => {
+  const [fiat, setFiat] = useState<Fiat>(loadStoredFiat);
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (balances.length === 0 && pools.length === 0) {
+      setPortfolio(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(null);
+    buildPortfolio(network, balances, pools, fiat)
+      .then((result) => {
+        if (!cancelled) {
+          setPortfolio(result);
+        }
+      })
+      .catch((err) => {
+        console.error('Unable to value the portfolio', err);
+        if (!cancelled) {
+          setLoadError(err instanceof Error ? err.message : 'Unable to value the portfolio.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [network, balances, pools, fiat]);
+
+  const handleFiatChange = (next: Fiat) => {
+    persistFiat(next);
+    setFiat(next);
+  };
+
+  if (balances.length === 0 && pools.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="portfolio-card">
+      <div className="metrics-header">
+        <h2>Portfolio</h2>
+        <select
+          aria-label="Valuation currency"
+          value={fiat}
+          onChange={(e) => handleFiatChange(e.currentTarget.value as Fiat)}
+        >
+          {Object.entries(FIATS).map(([value, definition]) => (
+            <option key={value} value={value}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loadError && <p className="metrics-placeholder">{loadError}</p>}
+
+      {portfolio && (
+        <>
+          <p className="portfolio-net-worth">
+            <span className="metrics-label">Net worth</span>
+            <span className="metrics-value">
+              {formatFiat(portfolio.netWorth, portfolio.fiat)}
+              {loading && ' …'}
+            </span>
+          </p>
+
+          {portfolio.allocation.length > 0 && (
+            <ul className="portfolio-allocation">
+              {portfolio.allocation.map((slice) => (
+                <li key={slice.asset}>
+                  <span>{slice.asset}</span>
+                  <span className="portfolio-bar">
+                    <span style={{ width: `${(slice.share * 100).toFixed(1)}%` }} />
+                  </span>
+                  <span>{(slice.share * 100).toFixed(1)}%</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <table className="portfolio-holdings">
+            <thead>
+              <tr>
+                <th>Asset</th>
+                <th>Held in</th>
+                <th>Amount</th>
+                <th>Value</th>
+                <th>Price from</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.holdings.map((holding, index) => (
+                <tr key={`${holding.location}:${holding.detail ?? ''}:${holding.asset}:${index}`}>
+                  <td>{holding.asset}</td>
+                  <td>{holding.location === 'blend' ? `Blend · ${holding.detail}` : 'Wallet'}</td>
+                  <td>{formatAmount(holding.amount)}</td>
+                  <td>
+                    {holding.value === undefined ? '—' : formatFiat(holding.value, portfolio.fiat)}
+                  </td>
+                  <td>{holding.priceSource ? PRICE_SOURCE_LABELS[holding.priceSource] : 'No price'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {portfolio.unpriced.length > 0 && (
+            <p className="field-hint">
+              No oracle or DEX price for {portfolio.unpriced.join(', ')}; excluded from the net
+              worth.
+            </p>
+          )}
+        </>
+      )}
+
+      {!portfolio && loading && <p className="metrics-placeholder">Pricing your holdings…</p>}
+    </div>
+  );
+};
+
+export default PortfolioSummary;
@@ -0,0 +1,55 @@
+import type { PositionMetrics, PositionSimulation } from './healthSimulator';
+
+type PositionPreviewProps = {
+  simulation: PositionSimulation;
+};
+
+const formatValue = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const formatHealthFactor = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '∞');
+
+const ROWS: { label: string; format: (metrics: PositionMetrics) => string }[] = [
+  { label: 'Collateral', format: (metrics) => formatValue(metrics.effectiveCollateral) },
+  { label: 'Liabilities', format: (metrics) => formatValue(metrics.effectiveLiabilities) },
+  { label: 'Borrow capacity', format: (metrics) => formatValue(metrics.borrowCap) },
+  { label: 'Borrow limit used', format: (metrics) => formatPercent(metrics.borrowLimit) },
+  { label: 'Health factor', format: (metrics) => formatHealthFactor(metrics.healthFactor) },
+  { label: 'Net APY', format: (metrics) => formatPercent(metrics.netApy) }
+];
+
+const PositionPreview = ({ simulation }: PositionPreviewProps) => (
+  <div className={`position-preview risk-${simulation.risk}`}>
+    <h4>Projected position</h4>
+    <table>
+      <thead>
+        <tr>
+          <th />
+          <th>Now</th>
+          <th>After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {ROWS.map((row) => (
+          <tr key={row.label}>
+            <th scope="row">{row.label}</th>
+            <td>{row.format(simulation.before)}</td>
+            <td>{row.format(simulation.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="field-hint">
+      Collateral and liabilities are risk-adjusted and quoted in the pool oracle currency.
+    </p>
+    {simulation.messages.map((message) => (
+      <p key={message} className="position-message">
+        {message}
+      </p>
+    ))}
+  </div>
+);
+
+export default PositionPreview;
@@ -0,0 +1,332 @@
+import { useState } from 'react';
+
+import type { PoolRegistryEntry } from './poolRegistry';
+import {
+  CADENCES,
+  Cadence,
+  DueRun,
+  PlanRunStatus,
+  SavingsPlan,
+  SavingsPlanDraft,
+  SavingsState,
+  dueRunKey,
+  nextRunAfter
+} from './savingsPlans';
+
+type SavingsPlansPanelProps = {
+  pools: PoolRegistryEntry[];
+  savings: SavingsState;
+  due: DueRun[];
+  /** Public key of the delegated signer configured on this browser. */
+  delegateKey: string | null;
+  disabled: boolean;
+  inFlight: boolean;
+  onCreate: (draft: SavingsPlanDraft) => void;
+  onUpdate: (planId: string, changes: Partial<Pick<SavingsPlan, 'paused' | 'autoExecute'>>) => void;
+  onDelete: (planId: string) => void;
+  onApproveDue: () => void;
+  onSkipDue: () => void;
+  onEnableDelegate: () => void;
+  onRevokeDelegate: () => void;
+};
+
+const RUN_STATUS_LABELS: Record<PlanRunStatus, string> = {
+  executed: 'Executed',
+  pending: 'Pending',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+/** Log entries shown; older ones stay in storage. */
+const VISIBLE_RUNS = 10;
+
+const formatDate = (at: number) => new Date(at).toLocaleDateString();
+
+/** Local midnight of a `yyyy-mm-dd` date input value. */
+const parseDateInput = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+const todayInput = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const SavingsPlansPanel = ({
+  pools,
+  savings,
+  due,
+  delegateKey,
+  disabled,
+  inFlight,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onApproveDue,
+  onSkipDue,
+  onEnableDelegate,
+  onRevokeDelegate
+}: SavingsPlansPanelProps) => {
+  const loadedPools = pools.filter((entry) => entry.snapshot);
+  const [poolId, setPoolId] = useState('');
+  const [assetId, setAssetId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [cadence, setCadence] = useState<Cadence>('weekly');
+  const [startDate, setStartDate] = useState(todayInput);
+  const [endDate, setEndDate] = useState('');
+  const [autoExecute, setAutoExecute] = useState(false);
+
+  const pool = loadedPools.find((entry) => entry.id === poolId) ?? loadedPools[0];
+  const reserve = pool?.reserves.find((entry) => entry.assetId === assetId) ?? pool?.reserves[0];
+  const planName = (plan: SavingsPlan) =>
+    `${plan.amount} ${plan.symbol} → ${pools.find((entry) => entry.id === plan.poolId)?.name ?? 'pool'}`;
+
+  const handleCreate = () => {
+    if (!pool || !reserve) {
+      return;
+    }
+    onCreate({
+      poolId: pool.id,
+      assetId: reserve.assetId,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      amount: amount.trim(),
+      cadence,
+      startAt: parseDateInput(startDate),
+      endAt: endDate ? parseDateInput(endDate) : undefined,
+      autoExecute: autoExecute && Boolean(delegateKey)
+    });
+    setAmount('');
+  };
+
+  return (
+    <div className="savings-card">
+      <h2>Savings Plans</h2>
+
+      {due.length > 0 && (
+        <div className="savings-due">
+          <p>
+            {due.length === 1 ? '1 scheduled deposit is' : `${due.length} scheduled deposits are`}{' '}
+            due:
+          </p>
+          <ul>
+            {due.map((run) => (
+              <li key={dueRunKey(run)}>
+                {planName(run.plan)} · {formatDate(run.scheduledAt)}
+              </li>
+            ))}
+          </ul>
+          <div className="field-row">
+            <button
+              type="button"
+              className="primary"
+              onClick={onApproveDue}
+              disabled={disabled || inFlight}
+            >
+              Review & Deposit
+            </button>
+            <button type="button" className="secondary" onClick={onSkipDue} disabled={inFlight}>
+              Skip
+            </button>
+          </div>
+        </div>
+      )}
+
+      {savings.plans.length > 0 && (
+        <ul className="savings-plans">
+          {savings.plans.map((plan) => {
+            const next = nextRunAfter(plan, Date.now());
+            return (
+              <li key={plan.id}>
+                <div>
+                  <strong>{planName(plan)}</strong>
+                  <span className="field-hint">
+                    {CADENCES[plan.cadence].label}
+                    {plan.paused
+                      ? ' · paused'
+                      : next
+                      ? ` · next ${formatDate(next)}`
+                      : ' · finished'}
+                    {plan.autoExecute && ' · auto'}
+                  </span>
+                </div>
+                <div className="field-row">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => onUpdate(plan.id, { paused: !plan.paused })}
+                  >
+                    {plan.paused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => onUpdate(plan.id, { autoExecute: !plan.autoExecute })}
+                    disabled={!plan.autoExecute && !delegateKey}
+                  >
+                    {plan.autoExecute ? 'Ask Before Running' : 'Run Automatically'}
+                  </button>
+                  <button type="button" className="secondary" onClick={() => onDelete(plan.id)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {loadedPools.length > 0 ? (
+        <div className="savings-form">
+          <div className="field-row">
+            <select
+              aria-label="Pool"
+              value={pool?.id ?? ''}
+              onChange={(e) => {
+                setPoolId(e.currentTarget.value);
+                setAssetId('');
+              }}
+            >
+              {loadedPools.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Asset"
+              value={reserve?.assetId ?? ''}
+              onChange={(e) => setAssetId(e.currentTarget.value)}
+            >
+              {pool?.reserves.map((entry) => (
+                <option key={entry.assetId} value={entry.assetId}>
+                  {entry.symbol}
+                </option>
+              ))}
+            </select>
+            <input
+              aria-label="Amount per deposit"
+              type="text"
+              inputMode="decimal"
+              placeholder="Amount per deposit"
+              value={amount}
+              onChange={(e) => setAmount(e.currentTarget.value)}
+            />
+          </div>
+          <div className="field-row">
+            <select
+              aria-label="Cadence"
+              value={cadence}
+              onChange={(e) => setCadence(e.currentTarget.value as Cadence)}
+            >
+              {Object.entries(CADENCES).map(([value, definition]) => (
+                <option key={value} value={value}>
+                  {definition.label}
+                </option>
+              ))}
+            </select>
+            <label>
+              First deposit{' '}
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              Ends (optional){' '}
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.currentTarget.value)} />
+            </label>
+          </div>
+          <label className="savings-auto">
+            <input
+              type="checkbox"
+              checked={autoExecute && Boolean(delegateKey)}
+              onChange={(e) => setAutoExecute(e.currentTarget.checked)}
+              disabled={!delegateKey}
+            />
+            Run automatically with the delegated signer
+          </label>
+          <button
+            type="button"
+            className="primary"
+            onClick={handleCreate}
+            disabled={disabled || !reserve || !amount.trim() || !startDate}
+          >
+            Create Plan
+          </button>
+        </div>
+      ) : (
+        <p className="metrics-placeholder">Load a Blend pool to create a savings plan.</p>
+      )}
+
+      <div className="savings-delegate">
+        {delegateKey ? (
+          <>
+            <p className="field-hint">
+              Delegated signer <code title={delegateKey}>{delegateKey.slice(0, 6)}…</code> can sign
+              payments for this account from this browser. Revoke it if this device is shared or
+              lost.
+            </p>
+            <button
+              type="button"
+              className="secondary"
+              onClick={onRevokeDelegate}
+              disabled={disabled || inFlight}
+            >
+              Revoke Delegated Signer
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="field-hint">
+              Without a delegated signer, due deposits wait for your approval when you open the
+              app. A delegated signer is an extra key added to your account and kept in this
+              browser, so it can sign scheduled deposits on its own.{' '}
+              <strong>
+                It can also send payments from your account: anyone using this browser could move
+                your funds with it.
+              </strong>{' '}
+              It cannot change the signers of your account. Only enable it on a device you trust.
+            </p>
+            <button
+              type="button"
+              className="secondary"
+              onClick={onEnableDelegate}
+              disabled={disabled || inFlight}
+            >
+              Enable Delegated Signer
+            </button>
+          </>
+        )}
+      </div>
+
+      {savings.runs.length > 0 && (
+        <table className="savings-log">
+          <thead>
+            <tr>
+              <th>Scheduled</th>
+              <th>Deposit</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {savings.runs.slice(0, VISIBLE_RUNS).map((run) => (
+              <tr key={`${run.planId}:${run.scheduledAt}:${run.recordedAt}`}>
+                <td>{formatDate(run.scheduledAt)}</td>
+                <td>
+                  {run.amount} {run.symbol}
+                </td>
+                <td title={run.detail}>
+                  {RUN_STATUS_LABELS[run.status]}
+                  {run.detail && ` · ${run.detail}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SavingsPlansPanel;
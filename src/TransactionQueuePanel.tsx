@@ -0,0 +1,48 @@
+import type { QueueItem, QueueItemStatus } from './transactionQueue';
+
+type TransactionQueuePanelProps = {
+  items: QueueItem[];
+  onClearFinished: () => void;
+};
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: 'Queued',
+  running: 'In progress',
+  succeeded: 'Done',
+  failed: 'Failed',
+  rejected: 'Rejected',
+  skipped: 'Skipped'
+};
+
+const TransactionQueuePanel = ({ items, onClearFinished }: TransactionQueuePanelProps) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const hasFinished = items.some((item) => item.status !== 'queued' && item.status !== 'running');
+
+  return (
+    <div className="queue-card">
+      <div className="metrics-header">
+        <h2>Transactions</h2>
+        <button type="button" className="secondary" onClick={onClearFinished} disabled={!hasFinished}>
+          Clear finished
+        </button>
+      </div>
+      <ol className="queue-list">
+        {items.map((item) => (
+          <li key={item.id} className={`queue-item ${item.status}`}>
+            <span className="queue-label">{item.label}</span>
+            <span className="queue-status">
+              {STATUS_LABELS[item.status]}
+              {item.attempts > 1 ? ` · attempt ${item.attempts}` : ''}
+            </span>
+            {item.error && <span className="queue-error">{item.error}</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TransactionQueuePanel;
@@ -0,0 +1,76 @@
+import type { TransactionSummary } from './transactionReview';
+
+type TransactionReviewModalProps = {
+  summary: TransactionSummary;
+  onApprove: () => void;
+  onReject: () => void;
+};
+
+const TransactionReviewModal = ({ summary, onApprove, onReject }: TransactionReviewModalProps) => (
+  <div className="modal-backdrop" role="presentation">
+    <div className="modal" role="dialog" aria-modal="true" aria-labelledby="review-title">
+      <h2 id="review-title">Review transaction</h2>
+      <p className="note">
+        Nothing has been signed yet. Check every field before approving on {summary.networkName}.
+      </p>
+
+      <dl className="review-fields">
+        <dt>Source account</dt>
+        <dd>{summary.source}</dd>
+        <dt>Sequence</dt>
+        <dd>{summary.sequence}</dd>
+        <dt>Max fee</dt>
+        <dd>{summary.fee}</dd>
+        {summary.resourceFee && (
+          <>
+            <dt>Simulated resource fee</dt>
+            <dd>{summary.resourceFee}</dd>
+          </>
+        )}
+        {summary.timeBounds && (
+          <>
+            <dt>Valid from</dt>
+            <dd>{summary.timeBounds.minTime}</dd>
+            <dt>Valid until</dt>
+            <dd>{summary.timeBounds.maxTime}</dd>
+          </>
+        )}
+        {summary.memo && (
+          <>
+            <dt>Memo</dt>
+            <dd>{summary.memo}</dd>
+          </>
+        )}
+      </dl>
+
+      {summary.operations.map((operation, index) => (
+        <div key={`${operation.type}-${index}`} className="review-operation">
+          <h3>
+            Operation {index + 1}: {operation.type}
+          </h3>
+          <dl className="review-fields">
+            {operation.fields.map((field) => (
+              <div key={field.label} className="review-field">
+                <dt>{field.label}</dt>
+                <dd>
+                  <pre>{field.value}</pre>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+
+      <div className="modal-actions">
+        <button type="button" className="secondary" onClick={onReject}>
+          Reject
+        </button>
+        <button type="button" className="primary" onClick={onApprove}>
+          Approve &amp; Sign
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default TransactionReviewModal;
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+
+import { Trustline, limitBlocker, removalBlocker } from './trustlines';
+
+type TrustlinePanelProps = {
+  trustlines: Trustline[];
+  disabled: boolean;
+  inFlight: boolean;
+  onUpdateLimit: (trustline: Trustline, limit: string) => void;
+  onRemove: (trustline: Trustline) => void;
+};
+
+/** Stellar's maximum trustline limit; Horizon reports it for "no limit". */
+const MAX_LIMIT = '922337203685.4775807';
+
+const keyOf = (trustline: Trustline) => `${trustline.assetCode}:${trustline.assetIssuer}`;
+
+const authorizationLabel = (trustline: Trustline) => {
+  if (trustline.isAuthorized) {
+    return 'Authorized';
+  }
+  if (trustline.isAuthorizedToMaintainLiabilities) {
+    return 'Frozen (existing offers only)';
+  }
+  return 'Not authorized';
+};
+
+const TrustlinePanel = ({
+  trustlines,
+  disabled,
+  inFlight,
+  onUpdateLimit,
+  onRemove
+}: TrustlinePanelProps) => {
+  const [limitDrafts, setLimitDrafts] = useState<Record<string, string>>({});
+
+  if (trustlines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="trustline-card">
+      <h2>Trustlines</h2>
+      <ul className="trustline-list">
+        {trustlines.map((trustline) => {
+          const key = keyOf(trustline);
+          const draft = limitDrafts[key] ?? '';
+          const removeBlocker = removalBlocker(trustline);
+          const draftBlocker = draft.trim() ? limitBlocker(trustline, draft) : null;
+
+          return (
+            <li key={key} className="trustline-item">
+              <div className="trustline-heading">
+                <strong>{trustline.assetCode}</strong>
+                <code title={trustline.assetIssuer}>{trustline.assetIssuer.slice(0, 6)}…</code>
+                <span className={`trustline-flag ${trustline.isAuthorized ? 'ok' : 'warn'}`}>
+                  {authorizationLabel(trustline)}
+                </span>
+                {trustline.isClawbackEnabled && (
+                  <span className="trustline-flag warn">Clawback enabled</span>
+                )}
+              </div>
+              <dl className="trustline-details">
+                <dt>Balance</dt>
+                <dd>{trustline.balance}</dd>
+                <dt>Limit</dt>
+                <dd>{trustline.limit === MAX_LIMIT ? 'No limit' : trustline.limit}</dd>
+                <dt>Buying liabilities</dt>
+                <dd>{trustline.buyingLiabilities ?? '0'}</dd>
+                <dt>Selling liabilities</dt>
+                <dd>{trustline.sellingLiabilities ?? '0'}</dd>
+              </dl>
+              <div className="field-row">
+                <input
+                  aria-label={`New limit for ${trustline.assetCode}`}
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="New limit"
+                  value={draft}
+                  onChange={(e) => {
+                    const value = e.currentTarget.value;
+                    setLimitDrafts((prev) => ({ ...prev, [key]: value }));
+                  }}
+                />
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => onUpdateLimit(trustline, draft.trim())}
+                  disabled={disabled || inFlight || !draft.trim() || Boolean(draftBlocker)}
+                >
+                  Update Limit
+                </button>
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => onRemove(trustline)}
+                  disabled={disabled || inFlight || Boolean(removeBlocker)}
+                >
+                  Remove
+                </button>
+              </div>
+              {draftBlocker && <p className="field-hint">{draftBlocker}</p>}
+              {removeBlocker && <p className="field-hint">Removal blocked: {removeBlocker}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TrustlinePanel;
@@ -0,0 +1,137 @@
+import type { PoolRegistryEntry } from './poolRegistry';
+import {
+  YieldLog,
+  YieldSnapshot,
+  computePoolEarnings,
+  poolSnapshots
+} from './yieldHistory';
+
+type YieldHistoryPanelProps = {
+  pools: PoolRegistryEntry[];
+  log: YieldLog;
+  onReset: () => void;
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 6;
+
+const formatTokens = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 7, signDisplay: 'exceptZero' });
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const formatDate = (at: number) => new Date(at).toLocaleDateString();
+
+/** SVG polyline points for `values`, scaled to the chart box. */
+const linePoints = (snapshots: YieldSnapshot[], values: number[]) => {
+  const first = snapshots[0].at;
+  const span = Math.max(snapshots[snapshots.length - 1].at - first, 1);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  return snapshots
+    .map((snapshot, index) => {
+      const x = CHART_PADDING + ((snapshot.at - first) / span) * innerWidth;
+      const y = CHART_PADDING + innerHeight - ((values[index] - min) / range) * innerHeight;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+/** Net balance and net APY over time, each on its own scale. */
+const YieldChart = ({ snapshots }: { snapshots: YieldSnapshot[] }) => {
+  const balances = snapshots.map((snapshot) => snapshot.totalSupplied - snapshot.totalBorrowed);
+  const apys = snapshots.map((snapshot) => snapshot.netApy);
+
+  return (
+    <figure className="yield-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Net balance and net APY over time"
+      >
+        <polyline className="yield-line balance" points={linePoints(snapshots, balances)} />
+        <polyline className="yield-line apy" points={linePoints(snapshots, apys)} />
+      </svg>
+      <figcaption>
+        <span className="yield-legend balance">
+          Net balance {balances[0].toFixed(2)} → {balances[balances.length - 1].toFixed(2)}
+        </span>
+        <span className="yield-legend apy">
+          Net APY {formatPercent(Math.min(...apys))}–{formatPercent(Math.max(...apys))}
+        </span>
+        <span>
+          {formatDate(snapshots[0].at)} – {formatDate(snapshots[snapshots.length - 1].at)}
+        </span>
+      </figcaption>
+    </figure>
+  );
+};
+
+const YieldHistoryPanel = ({ pools, log, onReset }: YieldHistoryPanelProps) => {
+  const tracked = pools.filter((entry) => poolSnapshots(log, entry.id).length > 0);
+  if (tracked.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="yield-card">
+      <div className="metrics-header">
+        <h2>Earnings</h2>
+        <button type="button" className="secondary" onClick={onReset}>
+          Reset History
+        </button>
+      </div>
+      {tracked.map((entry) => {
+        const snapshots = poolSnapshots(log, entry.id);
+        const earnings = computePoolEarnings(log, entry.id);
+
+        return (
+          <section key={entry.id} className="yield-pool">
+            <h3>{entry.name}</h3>
+            {earnings ? (
+              <>
+                <YieldChart snapshots={snapshots} />
+                <table className="yield-earnings">
+                  <thead>
+                    <tr>
+                      <th>Reserve</th>
+                      <th>Net deposits</th>
+                      <th>Position</th>
+                      <th>Earned</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {earnings.reserves.map((reserve) => (
+                      <tr key={reserve.assetId}>
+                        <td>{reserve.symbol}</td>
+                        <td>{formatTokens(reserve.netDeposits)}</td>
+                        <td>{formatTokens(reserve.current)}</td>
+                        <td>{formatTokens(reserve.earned)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="field-hint">
+                  About {earnings.totalEarnedValue.toFixed(2)} earned since{' '}
+                  {formatDate(earnings.since)} in the pool oracle's currency, net of deposits and
+                  withdrawals made from this app.
+                </p>
+              </>
+            ) : (
+              <p className="metrics-placeholder">
+                Tracking started {formatDate(snapshots[0].at)}; earnings show after the next
+                snapshot.
+              </p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default YieldHistoryPanel;
@@ -0,0 +1,76 @@
+/**
+ * Onboarding for accounts that do not exist on-ledger yet. A Stellar account
+ * only exists once it holds the minimum reserve, so a freshly generated key
+ * has no balances, trustlines or sequence number until someone funds it with
+ * `createAccount` (or Friendbot, on test networks).
+ */
+
+import { decimalToUnits, formatUnits } from './amounts';
+import type { AssetReference, NetworkProfile } from './networks';
+import { NetworkError, ValidationError, toStellarError } from './stellarErrors';
+import { WalletBalance, fetchBaseReserve } from './stellarMainnetExample';
+
+const STROOP_DECIMALS = 7;
+
+/** Extra XLM suggested on top of the reserve so the first transactions can pay fees. */
+const FEE_BUFFER = decimalToUnits('1', STROOP_DECIMALS);
+
+export type ActivationRequirements = {
+  baseReserve: string;
+  /** Balance needed for the account itself plus the activation trustlines. */
+  minimumBalance: string;
+  /** Minimum balance plus a buffer for fees; used as the default starting balance. */
+  recommendedBalance: string;
+};
+
+/** True when Horizon reports the account as not found, i.e. it was never funded. */
+export const isUnfundedAccountError = (error: unknown): boolean => {
+  const parsed = toStellarError(error, '');
+  return parsed instanceof NetworkError && parsed.status === 404;
+};
+
+/**
+ * Minimum balance for a new account: two base reserves for the account
+ * plus one per trustline it will open.
+ */
+export const fetchActivationRequirements = async (
+  network: NetworkProfile,
+  trustlineCount: number
+): Promise<ActivationRequirements> => {
+  const baseReserve = await fetchBaseReserve(network);
+  const minimum = baseReserve * BigInt(2 + trustlineCount);
+
+  return {
+    baseReserve: formatUnits(baseReserve, STROOP_DECIMALS),
+    minimumBalance: formatUnits(minimum, STROOP_DECIMALS),
+    recommendedBalance: formatUnits(minimum + FEE_BUFFER, STROOP_DECIMALS)
+  };
+};
+
+/** Funds `publicKey` from the network's Friendbot. Only test networks have one. */
+export const fundWithFriendbot = async (network: NetworkProfile, publicKey: string): Promise<void> => {
+  if (!network.friendbotUrl) {
+    throw new ValidationError(`${network.name} has no Friendbot; fund the account from another account.`);
+  }
+
+  const response = await fetch(`${network.friendbotUrl}?addr=${encodeURIComponent(publicKey)}`);
+  if (!response.ok) {
+    throw new NetworkError(
+      `Friendbot could not fund the account (HTTP ${response.status}).`,
+      response.status,
+      await response.text()
+    );
+  }
+};
+
+/** Activation assets the account does not hold a trustline for yet. */
+export const missingActivationTrustlines = (
+  network: NetworkProfile,
+  balances: WalletBalance[]
+): AssetReference[] =>
+  network.activationAssets.filter(
+    (asset) =>
+      !balances.some(
+        (balance) => balance.assetCode === asset.code && balance.assetIssuer === asset.issuer
+      )
+  );
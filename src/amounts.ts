@@ -0,0 +1,56 @@
+/**
+ * Exact conversions between human-readable decimal strings and the integer
+ * units contracts expect. Everything goes through string and bigint math so
+ * amounts never pick up floating point rounding.
+ */
+
+import { ValidationError } from './stellarErrors';
+
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+
+/**
+ * Converts a decimal string such as `"12.5"` into integer units for an asset
+ * with `decimals` places (e.g. `125000000n` for 7 decimals). Zero is allowed.
+ */
+export const decimalToUnits = (value: string, decimals: number): bigint => {
+  const trimmed = value.trim().replace(/,/g, '');
+  const match = DECIMAL_PATTERN.exec(trimmed);
+  if (!match) {
+    throw new ValidationError('Enter a positive decimal amount, e.g. 125.50.');
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new ValidationError(`This asset supports at most ${decimals} decimal places.`);
+  }
+
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+};
+
+/** Like `decimalToUnits`, but rejects zero: used for user-entered amounts. */
+export const parseDecimalAmount = (value: string, decimals: number): bigint => {
+  const units = decimalToUnits(value, decimals);
+  if (units <= 0n) {
+    throw new ValidationError('Amount must be greater than zero.');
+  }
+  return units;
+};
+
+/** Formats contract units back into a decimal string without trailing zeros. */
+export const formatUnits = (units: bigint, decimals: number): string => {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Trims a decimal string to at most `decimals` places (rounding down), e.g.
+ * to fit a 7-decimal Horizon balance into a reserve with fewer decimals.
+ */
+export const truncateDecimal = (value: string, decimals: number): string => {
+  const [whole, fraction = ''] = value.split('.');
+  const kept = fraction.slice(0, decimals).replace(/0+$/, '');
+  return kept ? `${whole}.${kept}` : whole;
+};
@@ -0,0 +1,53 @@
+/**
+ * Curated assets per network. Picking from the directory avoids typing
+ * issuer keys by hand, and the entries double as the reference that typed
+ * code/issuer pairs are checked against (see `assetVerification.ts`).
+ */
+
+import type { NetworkId, NetworkProfile } from './networks';
+
+export type DirectoryAsset = {
+  code: string;
+  issuer: string;
+  name: string;
+  /** Decimal places to display; classic assets always carry 7 on-ledger. */
+  decimals: number;
+  /** Domain the issuer publishes its `stellar.toml` under. */
+  homeDomain: string;
+  /** Fallback icon, served from `public/`; the issuer's toml image wins when it loads. */
+  logo?: string;
+};
+
+export const ASSET_DIRECTORY: Record<NetworkId, DirectoryAsset[]> = {
+  mainnet: [
+    {
+      code: 'CETES',
+      issuer: 'GCRYUGD5NVARGXT56XEZI5CIFCQETYHAPQQTHO2O3IQZTHDH4LATMYWC',
+      name: 'Etherfuse CETES',
+      decimals: 7,
+      homeDomain: 'etherfuse.com',
+      logo: '/logos/cetes.svg'
+    },
+    {
+      code: 'USDC',
+      issuer: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+      name: 'USD Coin',
+      decimals: 7,
+      homeDomain: 'centre.io',
+      logo: '/logos/usdc.svg'
+    }
+  ],
+  testnet: [],
+  futurenet: [],
+  local: []
+};
+
+export const directoryFor = (network: NetworkProfile): DirectoryAsset[] =>
+  ASSET_DIRECTORY[network.id];
+
+export const findDirectoryAsset = (
+  network: NetworkProfile,
+  code: string,
+  issuer: string
+): DirectoryAsset | undefined =>
+  directoryFor(network).find((asset) => asset.code === code && asset.issuer === issuer);
@@ -0,0 +1,156 @@
+/**
+ * SEP-1 asset verification. An issued asset is only as trustworthy as its
+ * issuer key, and anyone can issue an asset called "USDC". Before trusting
+ * or sending an asset we check the code/issuer pair against the curated
+ * directory and against the issuer's own `stellar.toml`, which is found via
+ * the `home_domain` set on the issuer account.
+ */
+
+import { StrKey } from 'stellar-sdk';
+
+import { DirectoryAsset, directoryFor, findDirectoryAsset } from './assetDirectory';
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+import { NetworkError, ValidationError, toStellarError } from './stellarErrors';
+import { fetchStellarToml, findTomlCurrency } from './stellarToml';
+
+/**
+ * `verified`: the issuer's stellar.toml lists the asset.
+ * `unverified`: nothing contradicts the asset, but it could not be confirmed
+ * (no home domain, or the toml could not be fetched).
+ * `mismatch`: something contradicts the asset; treat it as a likely scam or typo.
+ */
+export type AssetVerificationStatus = 'verified' | 'unverified' | 'mismatch';
+
+export type AssetVerification = {
+  status: AssetVerificationStatus;
+  message: string;
+  homeDomain?: string;
+  directoryEntry?: DirectoryAsset;
+  name?: string;
+  logo?: string;
+  decimals?: number;
+};
+
+const VERIFICATION_TTL_MS = 5 * 60_000;
+
+const verificationCache = new Map<string, { checkedAt: number; result: AssetVerification }>();
+
+const shortKey = (publicKey: string) => `${publicKey.slice(0, 4)}…${publicKey.slice(-4)}`;
+
+const checkAsset = async (
+  network: NetworkProfile,
+  code: string,
+  issuer: string
+): Promise<AssetVerification> => {
+  const directoryEntry = findDirectoryAsset(network, code, issuer);
+  const impostorOf = directoryFor(network).find(
+    (asset) => asset.code === code && asset.issuer !== issuer
+  );
+  if (!directoryEntry && impostorOf) {
+    return {
+      status: 'mismatch',
+      message: `${code} on ${network.name} is issued by ${shortKey(impostorOf.issuer)} (${impostorOf.homeDomain}), not ${shortKey(issuer)}.`
+    };
+  }
+
+  let homeDomain: string | undefined;
+  try {
+    homeDomain = (await createHorizonServer(network).loadAccount(issuer)).home_domain;
+  } catch (err) {
+    const parsed = toStellarError(err, 'Unable to load the issuer account.');
+    if (parsed instanceof NetworkError && parsed.status === 404) {
+      return { status: 'mismatch', message: `Issuer ${shortKey(issuer)} does not exist on ${network.name}.` };
+    }
+    throw parsed;
+  }
+
+  const base = {
+    homeDomain,
+    directoryEntry,
+    name: directoryEntry?.name,
+    logo: directoryEntry?.logo,
+    decimals: directoryEntry?.decimals
+  };
+  if (!homeDomain) {
+    return {
+      ...base,
+      status: directoryEntry ? 'verified' : 'unverified',
+      message: directoryEntry
+        ? `${code} is in the asset directory.`
+        : `Issuer ${shortKey(issuer)} has no home domain, so ${code} cannot be verified.`
+    };
+  }
+
+  let currency;
+  try {
+    currency = findTomlCurrency(await fetchStellarToml(network, homeDomain), code, issuer);
+  } catch (err) {
+    console.warn(`Unable to verify ${code} against ${homeDomain}`, err);
+    return {
+      ...base,
+      status: directoryEntry ? 'verified' : 'unverified',
+      message: directoryEntry
+        ? `${code} is in the asset directory; ${homeDomain} could not be reached to confirm it.`
+        : `Could not load stellar.toml from ${homeDomain} to verify ${code}.`
+    };
+  }
+
+  if (!currency) {
+    // The directory already vouches for the pair; an incomplete toml shouldn't block it.
+    return directoryEntry
+      ? {
+          ...base,
+          status: 'unverified',
+          message: `${code} is in the asset directory, but ${homeDomain} does not list it in its stellar.toml.`
+        }
+      : {
+          ...base,
+          status: 'mismatch',
+          message: `${homeDomain} does not list ${code} from ${shortKey(issuer)} in its stellar.toml.`
+        };
+  }
+
+  return {
+    ...base,
+    status: 'verified',
+    message: `${code} is verified by ${homeDomain}.`,
+    name: currency.name ?? base.name,
+    logo: currency.image ?? base.logo,
+    decimals: currency.display_decimals ?? base.decimals
+  };
+};
+
+/** Verifies a code/issuer pair; results are cached for a few minutes. */
+export const verifyAsset = async (
+  network: NetworkProfile,
+  code: string,
+  issuer: string
+): Promise<AssetVerification> => {
+  if (!StrKey.isValidEd25519PublicKey(issuer)) {
+    throw new ValidationError('Asset issuer must be a valid Stellar public key (G...).');
+  }
+
+  const key = `${network.id}:${code}:${issuer}`;
+  const cached = verificationCache.get(key);
+  if (cached && Date.now() - cached.checkedAt < VERIFICATION_TTL_MS) {
+    return cached.result;
+  }
+
+  const result = await checkAsset(network, code, issuer);
+  verificationCache.set(key, { checkedAt: Date.now(), result });
+  return result;
+};
+
+/** Verifies an asset and refuses it outright on a mismatch. */
+export const assertAssetNotMismatched = async (
+  network: NetworkProfile,
+  code: string,
+  issuer: string
+): Promise<AssetVerification> => {
+  const verification = await verifyAsset(network, code, issuer);
+  if (verification.status === 'mismatch') {
+    throw new ValidationError(`${verification.message} Check the asset before continuing.`);
+  }
+  return verification;
+};
@@ -0,0 +1,145 @@
+/**
+ * Live account activity over Horizon server-sent events. Subscribes to the
+ * account's payments stream so balances update as soon as funds move, and
+ * keeps the subscription alive with exponential backoff, resuming from the
+ * last seen paging token so nothing is missed across reconnects.
+ */
+
+import type { Horizon } from 'stellar-sdk';
+
+import type { NetworkProfile } from './networks';
+
+type PaymentRecord =
+  | Horizon.ServerApi.PaymentOperationRecord
+  | Horizon.ServerApi.CreateAccountOperationRecord
+  | Horizon.ServerApi.AccountMergeOperationRecord
+  | Horizon.ServerApi.PathPaymentOperationRecord
+  | Horizon.ServerApi.PathPaymentStrictSendOperationRecord
+  | Horizon.ServerApi.InvokeHostFunctionOperationRecord;
+
+export type IncomingPayment = {
+  id: string;
+  from: string;
+  assetCode: string;
+  amount: string;
+};
+
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting';
+
+export type AccountStreamHandlers = {
+  /** Called for every payment-like operation touching the account. */
+  onActivity: () => void;
+  /** Called only for funds arriving in the account. */
+  onIncomingPayment?: (payment: IncomingPayment) => void;
+  onStatusChange?: (status: StreamStatus) => void;
+};
+
+const INITIAL_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+const toIncomingPayment = (record: PaymentRecord, accountId: string): IncomingPayment | null => {
+  switch (record.type) {
+    case 'payment':
+    case 'path_payment_strict_receive':
+    case 'path_payment_strict_send':
+      if (record.to !== accountId || record.from === accountId) {
+        return null;
+      }
+      return {
+        id: record.id,
+        from: record.from,
+        assetCode: record.asset_type === 'native' ? 'XLM' : record.asset_code ?? record.asset_type,
+        amount: record.amount
+      };
+    case 'create_account':
+      return record.account === accountId
+        ? { id: record.id, from: record.funder, assetCode: 'XLM', amount: record.starting_balance }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const paymentsStreamUrl = (network: NetworkProfile, accountId: string, cursor: string) => {
+  const url = new URL(`accounts/${accountId}/payments`, network.horizonUrl.replace(/\/?$/, '/'));
+  url.searchParams.set('cursor', cursor);
+  return url.toString();
+};
+
+/**
+ * Opens the payments stream for `accountId` and returns an unsubscribe
+ * function. The stream starts at "now"; history is served by `history.ts`.
+ * Status stays 'connecting' until Horizon has actually opened the stream.
+ */
+export const subscribeToAccountActivity = (
+  network: NetworkProfile,
+  accountId: string,
+  { onActivity, onIncomingPayment, onStatusChange }: AccountStreamHandlers
+): (() => void) => {
+  let cursor = 'now';
+  let backoff = INITIAL_BACKOFF_MS;
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const scheduleReconnect = () => {
+    source?.close();
+    source = null;
+    if (stopped) {
+      return;
+    }
+    onStatusChange?.('reconnecting');
+    retryTimer = setTimeout(connect, backoff);
+    backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+  };
+
+  const markLive = () => {
+    backoff = INITIAL_BACKOFF_MS;
+    onStatusChange?.('live');
+  };
+
+  const connect = () => {
+    if (stopped) {
+      return;
+    }
+
+    // The SDK's `stream()` hides the EventSource, so there is no way to tell
+    // when the connection actually opens; we read the same endpoint directly.
+    source = new EventSource(paymentsStreamUrl(network, accountId, cursor));
+    // Fired when the connection opens, and again for Horizon's "hello" event.
+    source.addEventListener('open', markLive);
+    source.addEventListener('message', (event: MessageEvent<string>) => {
+      let record: PaymentRecord;
+      try {
+        record = JSON.parse(event.data) as PaymentRecord;
+      } catch {
+        return;
+      }
+      if (!record.paging_token) {
+        return;
+      }
+      cursor = record.paging_token;
+      markLive();
+
+      onActivity();
+      const incoming = toIncomingPayment(record, accountId);
+      if (incoming) {
+        onIncomingPayment?.(incoming);
+      }
+    });
+    source.addEventListener('error', scheduleReconnect);
+    // Horizon sends "close" when it ends the stream on its side.
+    source.addEventListener('close', scheduleReconnect);
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+    source?.close();
+    source = null;
+  };
+};
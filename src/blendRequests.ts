@@ -0,0 +1,71 @@
+/**
+ * Request builder for Blend pool `submit` calls. A single submit can carry
+ * any number of requests, which the pool applies atomically — e.g. supply
+ * collateral and borrow against it in one transaction.
+ */
+
+import { Request, RequestType } from '@blend-capital/blend-sdk';
+
+import { ValidationError } from './stellarErrors';
+
+export type PoolActionType =
+  | 'supply'
+  | 'withdraw'
+  | 'supplyCollateral'
+  | 'withdrawCollateral'
+  | 'borrow'
+  | 'repay';
+
+type PoolActionDefinition = {
+  label: string;
+  requestType: RequestType;
+  /** Whether tokens move from the wallet into the pool or the other way. */
+  flow: 'toPool' | 'fromPool';
+};
+
+export const POOL_ACTIONS: Record<PoolActionType, PoolActionDefinition> = {
+  supply: { label: 'Supply', requestType: RequestType.Supply, flow: 'toPool' },
+  withdraw: { label: 'Withdraw', requestType: RequestType.Withdraw, flow: 'fromPool' },
+  supplyCollateral: {
+    label: 'Supply collateral',
+    requestType: RequestType.SupplyCollateral,
+    flow: 'toPool'
+  },
+  withdrawCollateral: {
+    label: 'Withdraw collateral',
+    requestType: RequestType.WithdrawCollateral,
+    flow: 'fromPool'
+  },
+  borrow: { label: 'Borrow', requestType: RequestType.Borrow, flow: 'fromPool' },
+  repay: { label: 'Repay', requestType: RequestType.Repay, flow: 'toPool' }
+};
+
+export type PoolAction = {
+  type: PoolActionType;
+  /** Reserve asset contract address. */
+  asset: string;
+  /** Amount in the reserve's contract units. */
+  amount: bigint;
+};
+
+export const toBlendRequest = ({ type, asset, amount }: PoolAction): Request => {
+  if (amount <= 0n) {
+    throw new ValidationError(`${POOL_ACTIONS[type].label} amount must be greater than zero.`);
+  }
+  return {
+    request_type: POOL_ACTIONS[type].requestType,
+    address: asset,
+    amount
+  };
+};
+
+/** Converts a list of actions into the `requests` argument for `submit`. */
+export const buildPoolRequests = (actions: PoolAction[]): Request[] => {
+  if (actions.length === 0) {
+    throw new ValidationError('Add at least one pool action.');
+  }
+  return actions.map(toBlendRequest);
+};
+
+export const describePoolActions = (actions: PoolAction[]): string =>
+  actions.map((action) => POOL_ACTIONS[action.type].label).join(' + ');
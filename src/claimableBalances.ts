@@ -0,0 +1,248 @@
+/**
+ * Claimable balances. A regular asset payment fails when the recipient has
+ * no trustline (or no account yet); a claimable balance parks the funds
+ * on-ledger instead, and the recipient claims them once they can hold the
+ * asset. Predicates decide when each claimant may claim: we offer "any
+ * time", "before a date" and "after a date" for the recipient, and can add
+ * ourselves as a second claimant for the complementary window so unclaimed
+ * funds can be taken back.
+ */
+
+import { Asset, Claimant, Horizon, xdr } from 'stellar-sdk';
+
+import { decimalToUnits } from './amounts';
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+import { NetworkError, ValidationError, toStellarError } from './stellarErrors';
+
+export type ClaimWindow = 'anytime' | 'before' | 'after';
+
+export const CLAIM_WINDOWS: Record<ClaimWindow, { label: string }> = {
+  anytime: { label: 'Any time' },
+  before: { label: 'Before a date' },
+  after: { label: 'After a date' }
+};
+
+export type ClaimTerms = {
+  window: ClaimWindow;
+  /** Deadline or start of the recipient's window, in milliseconds since the epoch. */
+  at?: number;
+  /** Add the sender as a claimant for the time the recipient cannot claim. */
+  reclaimable: boolean;
+};
+
+export const DEFAULT_CLAIM_TERMS: ClaimTerms = { window: 'anytime', reclaimable: true };
+
+export type ClaimableBalance = {
+  id: string;
+  assetCode: string;
+  /** Absent for XLM. */
+  assetIssuer?: string;
+  amount: string;
+  sponsor?: string;
+  /** Whether the account can claim it right now. */
+  claimableNow: boolean;
+  /** When the account may claim, e.g. "Before 5/1/2026". */
+  window: string;
+};
+
+export type DeliveryCheck = {
+  direct: boolean;
+  /** Why a direct payment would fail. */
+  reason?: string;
+};
+
+const STELLAR_DECIMALS = 7;
+
+const beforeAbsolute = (at: number) =>
+  Claimant.predicateBeforeAbsoluteTime(String(Math.floor(at / 1000)));
+
+/** Recipient claimant plus, when reclaimable, the sender for the complementary window. */
+export const buildClaimants = (
+  sourcePublicKey: string,
+  destination: string,
+  { window, at, reclaimable }: ClaimTerms,
+  now = Date.now()
+): Claimant[] => {
+  if (window !== 'anytime' && (at === undefined || at <= now)) {
+    throw new ValidationError('Pick a claim date in the future.');
+  }
+
+  let recipient: xdr.ClaimPredicate;
+  let sender: xdr.ClaimPredicate;
+  switch (window) {
+    case 'anytime':
+      recipient = Claimant.predicateUnconditional();
+      sender = Claimant.predicateUnconditional();
+      break;
+    case 'before':
+      recipient = beforeAbsolute(at as number);
+      sender = Claimant.predicateNot(beforeAbsolute(at as number));
+      break;
+    case 'after':
+      recipient = Claimant.predicateNot(beforeAbsolute(at as number));
+      sender = beforeAbsolute(at as number);
+      break;
+  }
+
+  const claimants = [new Claimant(destination, recipient)];
+  if (reclaimable && destination !== sourcePublicKey) {
+    claimants.push(new Claimant(sourcePublicKey, sender));
+  }
+  return claimants;
+};
+
+const formatEpoch = (seconds: string | number) =>
+  new Date(Number(seconds) * 1000).toLocaleString();
+
+/** Human-readable form of an XDR claim predicate, for transaction review. */
+export const describeClaimPredicate = (predicate: xdr.ClaimPredicate): string => {
+  switch (predicate.switch()) {
+    case xdr.ClaimPredicateType.claimPredicateUnconditional():
+      return 'any time';
+    case xdr.ClaimPredicateType.claimPredicateBeforeAbsoluteTime():
+      return `before ${formatEpoch(predicate.absBefore().toString())}`;
+    case xdr.ClaimPredicateType.claimPredicateBeforeRelativeTime():
+      return `within ${predicate.relBefore().toString()} s of creation`;
+    case xdr.ClaimPredicateType.claimPredicateNot(): {
+      const inner = predicate.notPredicate();
+      if (inner?.switch() === xdr.ClaimPredicateType.claimPredicateBeforeAbsoluteTime()) {
+        return `after ${formatEpoch(inner.absBefore().toString())}`;
+      }
+      return inner ? `not ${describeClaimPredicate(inner)}` : 'never';
+    }
+    case xdr.ClaimPredicateType.claimPredicateAnd():
+      return predicate.andPredicates().map(describeClaimPredicate).join(' and ');
+    case xdr.ClaimPredicateType.claimPredicateOr():
+      return predicate.orPredicates().map(describeClaimPredicate).join(' or ');
+    default:
+      return 'unknown condition';
+  }
+};
+
+/**
+ * Evaluates a Horizon predicate at `now`. Relative predicates are turned
+ * into absolute ones when the balance is created, so they don't show up
+ * here; one that does is treated as satisfied and left to the network.
+ */
+const predicateHolds = (predicate: Horizon.HorizonApi.Predicate, now: number): boolean => {
+  if (predicate.and) {
+    return predicate.and.every((inner) => predicateHolds(inner, now));
+  }
+  if (predicate.or) {
+    return predicate.or.some((inner) => predicateHolds(inner, now));
+  }
+  if (predicate.not) {
+    return !predicateHolds(predicate.not, now);
+  }
+  if (predicate.abs_before) {
+    return now < Date.parse(predicate.abs_before);
+  }
+  return true;
+};
+
+const describeHorizonPredicate = (predicate: Horizon.HorizonApi.Predicate): string => {
+  if (predicate.abs_before) {
+    return `Before ${new Date(predicate.abs_before).toLocaleString()}`;
+  }
+  if (predicate.not?.abs_before) {
+    return `After ${new Date(predicate.not.abs_before).toLocaleString()}`;
+  }
+  if (predicate.and || predicate.or || predicate.not || predicate.rel_before) {
+    return 'Conditional';
+  }
+  return 'Any time';
+};
+
+/** Horizon's largest page size. */
+const PAGE_LIMIT = 200;
+
+const parseAsset = (asset: string): Pick<ClaimableBalance, 'assetCode' | 'assetIssuer'> => {
+  if (asset === 'native') {
+    return { assetCode: 'XLM' };
+  }
+  const [assetCode, assetIssuer] = asset.split(':');
+  return { assetCode, assetIssuer };
+};
+
+/** Balances the account is a claimant of, claimable-now first. */
+export const listClaimableBalances = async (
+  network: NetworkProfile,
+  accountId: string,
+  now = Date.now()
+): Promise<ClaimableBalance[]> => {
+  let page = await createHorizonServer(network)
+    .claimableBalances()
+    .claimant(accountId)
+    .limit(PAGE_LIMIT)
+    .call();
+  const records = [...page.records];
+  while (page.records.length === PAGE_LIMIT) {
+    page = await page.next();
+    records.push(...page.records);
+  }
+
+  return records
+    .map((record): ClaimableBalance => {
+      const claimant = record.claimants.find((entry) => entry.destination === accountId);
+      return {
+        id: record.id,
+        ...parseAsset(record.asset),
+        amount: record.amount,
+        sponsor: record.sponsor,
+        claimableNow: claimant ? predicateHolds(claimant.predicate, now) : false,
+        window: claimant ? describeHorizonPredicate(claimant.predicate) : 'Not a claimant'
+      };
+    })
+    .sort((a, b) => Number(b.claimableNow) - Number(a.claimableNow));
+};
+
+export const balanceAsset = (balance: ClaimableBalance): Asset =>
+  balance.assetIssuer ? new Asset(balance.assetCode, balance.assetIssuer) : Asset.native();
+
+/**
+ * Whether a plain payment of the asset to `destination` would go through:
+ * the account must exist and hold an authorized trustline with room for
+ * `amount` (when given). The issuer can always receive its own asset.
+ */
+export const checkDirectDelivery = async (
+  network: NetworkProfile,
+  destination: string,
+  assetCode: string,
+  assetIssuer: string,
+  amount?: string
+): Promise<DeliveryCheck> => {
+  if (destination === assetIssuer) {
+    return { direct: true };
+  }
+
+  let account;
+  try {
+    account = await createHorizonServer(network).loadAccount(destination);
+  } catch (err) {
+    const parsed = toStellarError(err, 'Unable to load the destination account.');
+    if (parsed instanceof NetworkError && parsed.status === 404) {
+      return { direct: false, reason: 'The destination account does not exist yet.' };
+    }
+    throw parsed;
+  }
+
+  const trustline = account.balances.find(
+    (balance) =>
+      (balance.asset_type === 'credit_alphanum4' || balance.asset_type === 'credit_alphanum12') &&
+      balance.asset_code === assetCode &&
+      balance.asset_issuer === assetIssuer
+  ) as Horizon.HorizonApi.BalanceLineAsset | undefined;
+
+  if (!trustline) {
+    return { direct: false, reason: `The destination has no ${assetCode} trustline.` };
+  }
+  if (!trustline.is_authorized) {
+    return { direct: false, reason: `The destination is not authorized to hold ${assetCode}.` };
+  }
+  const units = (value: string) => decimalToUnits(value, STELLAR_DECIMALS);
+  if (amount && units(trustline.balance) + units(amount) > units(trustline.limit)) {
+    return { direct: false, reason: `The destination's ${assetCode} trustline limit is too low.` };
+  }
+  return { direct: true };
+};
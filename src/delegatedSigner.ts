@@ -0,0 +1,128 @@
+/**
+ * Delegated signer for unattended savings runs. It is a separate key added
+ * to the account as an extra signer, with just enough weight to meet the
+ * account's medium threshold, so scheduled supplies can be signed without
+ * the wallet passphrase. Medium covers payments too, so the key can move
+ * funds; the same `setOptions` raises the high threshold above its weight
+ * (and the master key to at least that), so it can never change signers or
+ * thresholds or merge the account.
+ *
+ * The key is a non-extractable WebCrypto Ed25519 key kept in the keystore
+ * database: this browser can sign with it, but its secret cannot be read
+ * back out. Revoking it removes the signer from the account on-chain before
+ * deleting the key.
+ */
+
+import { Buffer } from 'buffer';
+import { StrKey } from 'stellar-sdk';
+
+import type { FeeLevel } from './feeStrategy';
+import { createHorizonServer } from './horizon';
+import { deleteDelegateKey, loadDelegateKey, saveDelegateKey } from './keystore';
+import type { NetworkProfile } from './networks';
+import { Signer, createDelegatedSigner } from './signer';
+import { ValidationError } from './stellarErrors';
+import { ReviewTransaction, setAccountSignerOnMainnet } from './stellarMainnetExample';
+
+/** Highest weight or threshold an account can hold. */
+const MAX_WEIGHT = 255;
+
+const recordId = (network: NetworkProfile, accountId: string) => `${network.id}.${accountId}`;
+
+const generateDelegateKey = async (): Promise<{ publicKey: string; keyPair: CryptoKeyPair }> => {
+  let keyPair: CryptoKeyPair;
+  try {
+    keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, false, ['sign', 'verify']);
+  } catch {
+    throw new ValidationError(
+      'This browser cannot hold a delegated signer securely. Update it or use another browser.'
+    );
+  }
+  // Only the public half is exportable.
+  const rawPublicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+  return { publicKey: StrKey.encodeEd25519PublicKey(Buffer.from(rawPublicKey)), keyPair };
+};
+
+/** Public key of the stored delegate, if one is configured on this browser. */
+export const delegatePublicKey = async (
+  network: NetworkProfile,
+  accountId: string
+): Promise<string | null> =>
+  (await loadDelegateKey(recordId(network, accountId)))?.publicKey ?? null;
+
+/**
+ * A signer for `accountId` backed by the stored delegate, or `null` when
+ * none is stored or the account no longer lists it as a signer.
+ */
+export const loadDelegatedSigner = async (
+  network: NetworkProfile,
+  accountId: string
+): Promise<Signer | null> => {
+  const record = await loadDelegateKey(recordId(network, accountId));
+  if (!record) {
+    return null;
+  }
+  const account = await createHorizonServer(network).loadAccount(accountId);
+  const listed = account.signers.some(
+    (entry) => entry.key === record.publicKey && entry.weight > 0
+  );
+  return listed ? createDelegatedSigner(accountId, record.publicKey, record.keyPair.privateKey) : null;
+};
+
+/**
+ * Creates a delegate key and adds it as a signer of the wallet's account,
+ * raising the high threshold above the delegate's weight in the same
+ * operation and keeping the wallet's own key able to meet it.
+ */
+export const enableDelegatedSigner = async (
+  network: NetworkProfile,
+  walletSigner: Signer,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel
+): Promise<string> => {
+  const account = await createHorizonServer(network).loadAccount(walletSigner.publicKey);
+  const weight = Math.max(account.thresholds.med_threshold, 1);
+  const highThreshold = Math.max(account.thresholds.high_threshold, weight + 1);
+  if (highThreshold > MAX_WEIGHT) {
+    throw new ValidationError(
+      'The account\'s medium threshold is too high to add a delegated signer that cannot change its signers.'
+    );
+  }
+  const masterWeight =
+    account.signers.find((entry) => entry.key === walletSigner.publicKey)?.weight ?? 0;
+
+  const { publicKey, keyPair } = await generateDelegateKey();
+  await setAccountSignerOnMainnet(
+    network,
+    walletSigner,
+    publicKey,
+    { weight, highThreshold, masterWeight: Math.max(masterWeight, highThreshold) },
+    review,
+    feeLevel
+  );
+  await saveDelegateKey({
+    id: recordId(network, walletSigner.publicKey),
+    publicKey,
+    keyPair,
+    createdAt: new Date().toISOString()
+  });
+  return publicKey;
+};
+
+/** Removes the delegate from the account, then deletes its key. */
+export const revokeDelegatedSigner = async (
+  network: NetworkProfile,
+  walletSigner: Signer,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel
+): Promise<void> => {
+  const publicKey = await delegatePublicKey(network, walletSigner.publicKey);
+  if (!publicKey) {
+    return;
+  }
+  const account = await createHorizonServer(network).loadAccount(walletSigner.publicKey);
+  if (account.signers.some((entry) => entry.key === publicKey)) {
+    await setAccountSignerOnMainnet(network, walletSigner, publicKey, { weight: 0 }, review, feeLevel);
+  }
+  await deleteDelegateKey(recordId(network, walletSigner.publicKey));
+};
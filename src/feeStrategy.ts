@@ -0,0 +1,160 @@
+/**
+ * Fee strategy. Instead of always bidding the static `BASE_FEE`, builders
+ * ask for a base fee at the user's chosen level, derived from Horizon's
+ * recent fee stats. Transactions that still get stuck can be wrapped in a
+ * fee-bump envelope, which pays a higher fee without re-signing the inner
+ * transaction.
+ */
+
+import {
+  BASE_FEE,
+  FeeBumpTransaction,
+  Horizon,
+  Transaction,
+  TransactionBuilder
+} from 'stellar-sdk';
+
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+
+export type FeeLevel = 'economy' | 'normal' | 'priority';
+
+type FeeLevelDefinition = {
+  label: string;
+  /** Percentile of recently charged fees to bid. */
+  percentile: keyof Horizon.HorizonApi.FeeDistribution;
+};
+
+export const FEE_LEVELS: Record<FeeLevel, FeeLevelDefinition> = {
+  economy: { label: 'Economy', percentile: 'p10' },
+  normal: { label: 'Normal', percentile: 'p70' },
+  priority: { label: 'Priority', percentile: 'p99' }
+};
+
+export const DEFAULT_FEE_LEVEL: FeeLevel = 'normal';
+
+/** Per-operation ceiling so a fee spike can never drain the account (0.01 XLM). */
+export const MAX_BASE_FEE = 100_000;
+
+/** Ledgers fuller than this are considered surge-priced. */
+const CONGESTION_THRESHOLD = 0.9;
+
+const STATS_TTL_MS = 15_000;
+
+export type FeeEstimates = {
+  /** Base fee per operation, in stroops, for each level. */
+  fees: Record<FeeLevel, string>;
+  congested: boolean;
+};
+
+const statsCache = new Map<string, { fetchedAt: number; estimates: FeeEstimates }>();
+
+const toEstimates = (stats: Horizon.HorizonApi.FeeStatsResponse): FeeEstimates => {
+  const floor = Number(stats.last_ledger_base_fee) || Number(BASE_FEE);
+  const feeAt = (level: FeeLevel) => {
+    const charged = Number(stats.fee_charged[FEE_LEVELS[level].percentile]) || floor;
+    return String(Math.min(Math.max(charged, floor), MAX_BASE_FEE));
+  };
+
+  return {
+    fees: { economy: feeAt('economy'), normal: feeAt('normal'), priority: feeAt('priority') },
+    congested: Number(stats.ledger_capacity_usage) > CONGESTION_THRESHOLD
+  };
+};
+
+/** Reads Horizon fee stats, cached briefly so every build doesn't refetch them. */
+export const fetchFeeEstimates = async (network: NetworkProfile): Promise<FeeEstimates> => {
+  const cached = statsCache.get(network.id);
+  if (cached && Date.now() - cached.fetchedAt < STATS_TTL_MS) {
+    return cached.estimates;
+  }
+
+  const stats = await createHorizonServer(network).feeStats();
+  const estimates = toEstimates(stats);
+  statsCache.set(network.id, { fetchedAt: Date.now(), estimates });
+  return estimates;
+};
+
+/**
+ * Base fee per operation for `level`. Falls back to `BASE_FEE` when fee
+ * stats are unavailable, e.g. on a local node without history.
+ */
+export const resolveBaseFee = async (network: NetworkProfile, level: FeeLevel): Promise<string> => {
+  try {
+    return (await fetchFeeEstimates(network)).fees[level];
+  } catch (err) {
+    console.warn('Unable to load fee stats; using the minimum base fee', err);
+    return BASE_FEE;
+  }
+};
+
+const sorobanResourceFee = (transaction: Transaction): number => {
+  const ext = transaction.toEnvelope().v1().tx().ext();
+  return ext.switch() === 1 ? Number(ext.sorobanData().resourceFee().toString()) : 0;
+};
+
+const innerTransactionOf = (signedEnvelope: string, network: NetworkProfile): Transaction => {
+  const parsed = TransactionBuilder.fromXDR(signedEnvelope, network.passphrase);
+  return parsed instanceof FeeBumpTransaction ? parsed.innerTransaction : parsed;
+};
+
+/**
+ * Wraps an already signed transaction in an unsigned fee-bump envelope paid
+ * by `feeSourcePublicKey`. The new per-operation bid is the level's fee or
+ * double the inner transaction's bid, whichever is higher, capped at
+ * `MAX_BASE_FEE`. stellar-base multiplies the base fee we pass by the inner
+ * operation count plus one, so the Soroban resource fee is spread across
+ * those slots instead of being added to each. It also refuses a base fee
+ * below the inner fee per operation (resource fee included), so that floor
+ * wins for single-call Soroban transactions; the network still charges the
+ * resource fee once.
+ */
+export const buildFeeBumpTransaction = async (
+  network: NetworkProfile,
+  feeSourcePublicKey: string,
+  signedEnvelope: string,
+  level: FeeLevel
+): Promise<FeeBumpTransaction> => {
+  const inner = innerTransactionOf(signedEnvelope, network);
+  const operations = inner.operations.length;
+  const resourceFee = sorobanResourceFee(inner);
+  const innerBid = (Number(inner.fee) - resourceFee) / operations;
+  const bid = Math.min(
+    Math.max(Number(await resolveBaseFee(network, level)), Math.ceil(innerBid * 2)),
+    MAX_BASE_FEE
+  );
+  const slots = operations + 1;
+  const baseFee = Math.max(
+    Math.ceil((resourceFee + bid * slots) / slots),
+    Math.ceil(Number(inner.fee) / operations)
+  );
+
+  return TransactionBuilder.buildFeeBumpTransaction(
+    feeSourcePublicKey,
+    String(baseFee),
+    inner,
+    network.passphrase
+  );
+};
+
+const FEE_LEVEL_STORAGE_KEY = 'supercetes.feeLevel';
+
+const isFeeLevel = (value: unknown): value is FeeLevel =>
+  typeof value === 'string' && value in FEE_LEVELS;
+
+export const loadStoredFeeLevel = (): FeeLevel => {
+  try {
+    const stored = window.localStorage.getItem(FEE_LEVEL_STORAGE_KEY);
+    return isFeeLevel(stored) ? stored : DEFAULT_FEE_LEVEL;
+  } catch {
+    return DEFAULT_FEE_LEVEL;
+  }
+};
+
+export const persistFeeLevel = (level: FeeLevel): void => {
+  try {
+    window.localStorage.setItem(FEE_LEVEL_STORAGE_KEY, level);
+  } catch {
+    /* storage may be unavailable (private mode); the choice just won't persist */
+  }
+};
@@ -0,0 +1,150 @@
+/**
+ * What-if simulation for Blend pool actions. Applies a proposed list of
+ * actions to a copy of the user's positions and re-runs `PositionsEstimate`
+ * on the result, so the UI can show the projected position — and refuse
+ * actions the pool would reject — before anything is signed.
+ */
+
+import { Positions, PositionsEstimate } from '@blend-capital/blend-sdk';
+
+import { POOL_ACTIONS, PoolAction } from './blendRequests';
+import type { PoolSnapshot } from './stellarMainnetExample';
+
+/** The pool rejects borrows and collateral withdrawals below this. */
+export const MIN_HEALTH_FACTOR = 1;
+
+/** Below this the position is close enough to liquidation to warn about. */
+export const WARN_HEALTH_FACTOR = 1.2;
+
+export type RiskLevel = 'safe' | 'warning' | 'blocked';
+
+/** Values are in the pool oracle's denomination (usually USD). */
+export type PositionMetrics = {
+  totalSupplied: number;
+  totalBorrowed: number;
+  effectiveCollateral: number;
+  effectiveLiabilities: number;
+  /** Remaining effective collateral available to borrow against. */
+  borrowCap: number;
+  /** Share of effective collateral already used by liabilities (0–1). */
+  borrowLimit: number;
+  /** Effective collateral over effective liabilities; `Infinity` with no debt. */
+  healthFactor: number;
+  netApy: number;
+};
+
+export type PositionSimulation = {
+  before: PositionMetrics;
+  after: PositionMetrics;
+  risk: RiskLevel;
+  messages: string[];
+};
+
+const toMetrics = (estimate: PositionsEstimate): PositionMetrics => ({
+  totalSupplied: estimate.totalSupplied,
+  totalBorrowed: estimate.totalBorrowed,
+  effectiveCollateral: estimate.totalEffectiveCollateral,
+  effectiveLiabilities: estimate.totalEffectiveLiabilities,
+  borrowCap: estimate.borrowCap,
+  borrowLimit: estimate.borrowLimit,
+  healthFactor:
+    estimate.totalEffectiveLiabilities > 0
+      ? estimate.totalEffectiveCollateral / estimate.totalEffectiveLiabilities
+      : Infinity,
+  netApy: estimate.netApy
+});
+
+const adjust = (balances: Map<number, bigint>, index: number, delta: bigint) => {
+  const next = (balances.get(index) ?? 0n) + delta;
+  if (next > 0n) {
+    balances.set(index, next);
+  } else {
+    balances.delete(index);
+  }
+};
+
+/**
+ * Runs `actions` against a copy of the snapshot's positions, in order, the
+ * same way the pool's `submit` applies them. Withdrawals and repayments
+ * larger than the position are clamped, as the pool does on-chain.
+ */
+export const simulatePoolActions = (
+  snapshot: PoolSnapshot,
+  actions: PoolAction[]
+): PositionSimulation => {
+  const { pool, poolOracle, poolUser } = snapshot;
+  const { liabilities, collateral, supply } = poolUser.positions;
+  const positions = new Positions(new Map(liabilities), new Map(collateral), new Map(supply));
+  const messages: string[] = [];
+
+  for (const action of actions) {
+    const reserve = pool.reserves.get(action.asset);
+    if (!reserve) {
+      throw new Error(`${action.asset} is not a reserve of this pool.`);
+    }
+    // Positions are keyed by the reserve's on-chain index, not by load order.
+    const index = reserve.config.index;
+    if (poolOracle.getPriceFloat(reserve.assetId) === undefined) {
+      throw new Error(`The pool oracle has no price for ${reserve.assetId}.`);
+    }
+
+    const label = POOL_ACTIONS[action.type].label;
+    switch (action.type) {
+      case 'supply':
+        adjust(positions.supply, index, reserve.toBTokensFromAssetFloor(action.amount));
+        break;
+      case 'supplyCollateral':
+        adjust(positions.collateral, index, reserve.toBTokensFromAssetFloor(action.amount));
+        break;
+      case 'withdraw':
+      case 'withdrawCollateral': {
+        const balances = action.type === 'withdraw' ? positions.supply : positions.collateral;
+        const held = balances.get(index) ?? 0n;
+        const bTokens = reserve.toBTokensFromAssetCeil(action.amount);
+        if (bTokens > held) {
+          messages.push(`${label} exceeds your position; the pool will withdraw everything you hold.`);
+        }
+        adjust(balances, index, -(bTokens > held ? held : bTokens));
+        break;
+      }
+      case 'borrow': {
+        const available = reserve.totalSupply() - reserve.totalLiabilities();
+        if (action.amount > available) {
+          messages.push(`${label} exceeds the liquidity available in the reserve.`);
+        }
+        adjust(positions.liabilities, index, reserve.toDTokensFromAssetCeil(action.amount));
+        break;
+      }
+      case 'repay': {
+        const owed = positions.liabilities.get(index) ?? 0n;
+        const dTokens = reserve.toDTokensFromAssetFloor(action.amount);
+        if (dTokens > owed) {
+          messages.push(`${label} exceeds your debt; the excess is refunded.`);
+        }
+        adjust(positions.liabilities, index, -(dTokens > owed ? owed : dTokens));
+        break;
+      }
+    }
+  }
+
+  const before = toMetrics(snapshot.userEstimate);
+  const after = toMetrics(PositionsEstimate.build(pool, poolOracle, positions));
+
+  // Only judge actions that make the position riskier; repaying an unhealthy
+  // position should never be blocked.
+  const worsens = after.healthFactor < before.healthFactor;
+  let risk: RiskLevel = 'safe';
+  if (worsens && after.healthFactor < MIN_HEALTH_FACTOR) {
+    risk = 'blocked';
+    messages.unshift(
+      'These actions would leave your health factor below 1. The pool rejects them and your position would be liquidatable.'
+    );
+  } else if (worsens && after.healthFactor < WARN_HEALTH_FACTOR) {
+    risk = 'warning';
+    messages.unshift(
+      `Your health factor would drop below ${WARN_HEALTH_FACTOR}. A small price move could make the position liquidatable.`
+    );
+  }
+
+  return { before, after, risk, messages };
+};
@@ -0,0 +1,229 @@
+/**
+ * Account history. Pages through Horizon's operations for the wallet's
+ * account, failed ones included, and normalises the record types we care
+ * about (payments, trustline changes, Soroban invocations such as Blend
+ * `submit`, and account creation) into a typed timeline. The account's
+ * credit and debit effects fill in the amounts of operations whose record
+ * doesn't carry them, such as claims and account merges.
+ */
+
+import { Horizon, scValToNative, xdr } from 'stellar-sdk';
+
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+
+export type HistoryEntryType = 'payment' | 'trustline' | 'contract' | 'account_created' | 'other';
+
+export type HistoryAmount = {
+  assetCode: string;
+  assetIssuer?: string;
+  amount?: string;
+};
+
+export type HistoryEntry = {
+  id: string;
+  pagingToken: string;
+  type: HistoryEntryType;
+  title: string;
+  createdAt: string;
+  transactionHash: string;
+  successful: boolean;
+  direction?: 'in' | 'out';
+  counterparty?: string;
+  amounts: HistoryAmount[];
+  details?: string;
+};
+
+export type HistoryPage = {
+  entries: HistoryEntry[];
+  /** Cursor to pass back for the next (older) page; absent when exhausted. */
+  nextCursor?: string;
+};
+
+type OperationRecord = Horizon.ServerApi.OperationRecord;
+
+/** Fields shared by `account_credited` and `account_debited` effects. */
+type BalanceEffect = {
+  type: string;
+  paging_token: string;
+  amount: string;
+  asset_type: string;
+  asset_code?: string;
+  asset_issuer?: string;
+};
+
+/** Effects fetched alongside a page of operations; far more than a page produces. */
+const EFFECTS_LIMIT = 200;
+
+const OperationType = Horizon.HorizonApi.OperationResponseType;
+
+const toAmount = (
+  assetType: string,
+  assetCode: string | undefined,
+  assetIssuer: string | undefined,
+  amount?: string
+): HistoryAmount =>
+  assetType === 'native'
+    ? { assetCode: 'XLM', amount }
+    : { assetCode: assetCode ?? assetType, assetIssuer, amount };
+
+const decodeParameter = (value: string): unknown => {
+  try {
+    return scValToNative(xdr.ScVal.fromXDR(value, 'base64'));
+  } catch {
+    return undefined;
+  }
+};
+
+const baseEntry = (record: OperationRecord) => ({
+  id: record.id,
+  pagingToken: record.paging_token,
+  createdAt: record.created_at,
+  transactionHash: record.transaction_hash,
+  successful: record.transaction_successful
+});
+
+const normalizeOperation = (
+  record: OperationRecord,
+  accountId: string,
+  network: NetworkProfile
+): HistoryEntry => {
+  switch (record.type) {
+    case OperationType.payment: {
+      const incoming = record.to === accountId;
+      return {
+        ...baseEntry(record),
+        type: 'payment',
+        title: incoming ? 'Payment received' : 'Payment sent',
+        direction: incoming ? 'in' : 'out',
+        counterparty: incoming ? record.from : record.to,
+        amounts: [toAmount(record.asset_type, record.asset_code, record.asset_issuer, record.amount)]
+      };
+    }
+    case OperationType.pathPayment:
+    case OperationType.pathPaymentStrictSend: {
+      const incoming = record.to === accountId;
+      return {
+        ...baseEntry(record),
+        type: 'payment',
+        title: incoming ? 'Path payment received' : 'Path payment sent',
+        direction: incoming ? 'in' : 'out',
+        counterparty: incoming ? record.from : record.to,
+        amounts: [
+          incoming
+            ? toAmount(record.asset_type, record.asset_code, record.asset_issuer, record.amount)
+            : toAmount(
+                record.source_asset_type,
+                record.source_asset_code,
+                record.source_asset_issuer,
+                record.source_amount
+              )
+        ],
+        details: `${record.source_amount} ${record.source_asset_code ?? 'XLM'} → ${record.amount} ${record.asset_code ?? 'XLM'}`
+      };
+    }
+    case OperationType.changeTrust:
+      return {
+        ...baseEntry(record),
+        type: 'trustline',
+        title: Number(record.limit) === 0 ? 'Trustline removed' : 'Trustline set',
+        amounts: [toAmount(record.asset_type, record.asset_code, record.asset_issuer)],
+        details: Number(record.limit) === 0 ? undefined : `Limit ${record.limit}`
+      };
+    case OperationType.createAccount: {
+      const created = record.account === accountId;
+      return {
+        ...baseEntry(record),
+        type: 'account_created',
+        title: created ? 'Account created' : 'Created account',
+        direction: created ? 'in' : 'out',
+        counterparty: created ? record.funder : record.account,
+        amounts: [{ assetCode: 'XLM', amount: record.starting_balance }]
+      };
+    }
+    case OperationType.invokeHostFunction: {
+      const [contractParam, functionParam] = record.parameters ?? [];
+      const contractId = contractParam ? decodeParameter(contractParam.value) : undefined;
+      const functionName = functionParam ? decodeParameter(functionParam.value) : undefined;
+      const isBlendPool =
+        typeof contractId === 'string' && network.blendPoolIds.includes(contractId);
+
+      return {
+        ...baseEntry(record),
+        type: 'contract',
+        title:
+          isBlendPool && functionName === 'submit'
+            ? 'Blend pool submit'
+            : `Contract call${typeof functionName === 'string' ? `: ${functionName}` : ''}`,
+        counterparty: typeof contractId === 'string' ? contractId : undefined,
+        amounts: (record.asset_balance_changes ?? []).map((change) => ({
+          ...toAmount(change.asset_type, change.asset_code, change.asset_issuer, change.amount),
+          amount: `${change.from === accountId ? '-' : '+'}${change.amount}`
+        }))
+      };
+    }
+    default:
+      return {
+        ...baseEntry(record),
+        type: 'other',
+        title: record.type.replace(/_/g, ' '),
+        amounts: []
+      };
+  }
+};
+
+/** Operation an effect belongs to: effect paging tokens are `<operation>-<index>`. */
+const operationOf = (effect: BalanceEffect) => effect.paging_token.split('-')[0];
+
+const withEffectAmounts = (entries: HistoryEntry[], effects: BalanceEffect[]): HistoryEntry[] =>
+  entries.map((entry) => {
+    if (entry.amounts.length > 0) {
+      return entry;
+    }
+    const amounts = effects
+      .filter((effect) => operationOf(effect) === entry.pagingToken)
+      .map((effect) => ({
+        ...toAmount(effect.asset_type, effect.asset_code, effect.asset_issuer, effect.amount),
+        amount: `${effect.type === 'account_debited' ? '-' : '+'}${effect.amount}`
+      }));
+    return amounts.length > 0 ? { ...entry, amounts } : entry;
+  });
+
+/**
+ * Loads one page of history, newest first. Pass the previous page's
+ * `nextCursor` to continue further back in time.
+ */
+export const fetchAccountHistory = async (
+  network: NetworkProfile,
+  accountId: string,
+  { cursor, limit = 20 }: { cursor?: string; limit?: number } = {}
+): Promise<HistoryPage> => {
+  const server = createHorizonServer(network);
+
+  let query = server
+    .operations()
+    .forAccount(accountId)
+    .includeFailed(true)
+    .order('desc')
+    .limit(limit);
+  let effectsQuery = server.effects().forAccount(accountId).order('desc').limit(EFFECTS_LIMIT);
+  if (cursor) {
+    query = query.cursor(cursor);
+    // Effect indexes start at 1, so `<operation>-0` starts right below that operation.
+    effectsQuery = effectsQuery.cursor(`${cursor}-0`);
+  }
+
+  const [page, effectsPage] = await Promise.all([query.call(), effectsQuery.call()]);
+  const effects = (effectsPage.records as unknown as BalanceEffect[]).filter(
+    (effect) => effect.type === 'account_credited' || effect.type === 'account_debited'
+  );
+  const entries = withEffectAmounts(
+    page.records.map((record) => normalizeOperation(record, accountId, network)),
+    effects
+  );
+
+  return {
+    entries,
+    nextCursor: entries.length === limit ? entries[entries.length - 1].pagingToken : undefined
+  };
+};
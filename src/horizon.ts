@@ -0,0 +1,12 @@
+/**
+ * Horizon client factory. Kept in its own module, with nothing but the SDK
+ * and the network profile as dependencies, so helpers that only read from
+ * Horizon can use it without importing the transaction helpers.
+ */
+
+import { Horizon } from 'stellar-sdk';
+
+import type { NetworkProfile } from './networks';
+
+export const createHorizonServer = (network: NetworkProfile) =>
+  new Horizon.Server(network.horizonUrl, { allowHttp: network.allowHttp });
@@ -0,0 +1,227 @@
+/**
+ * Per-user encrypted keystore backed by IndexedDB.
+ *
+ * Each Privy user gets their own Stellar keypair, generated in the browser on
+ * first login. The raw ed25519 seed is encrypted with AES-GCM using a key
+ * derived from the user's passphrase (PBKDF2-SHA256) and stored under the
+ * Privy user id. The plaintext seed only ever exists in memory after an
+ * explicit unlock.
+ *
+ * The same database holds delegated signer keys (see `delegatedSigner.ts`)
+ * as non-extractable WebCrypto keys: the browser can sign with them but
+ * never hands out the private key.
+ */
+
+import { Buffer } from 'buffer';
+import { Keypair } from 'stellar-sdk';
+
+const DB_NAME = 'supercetes-keystore';
+const DB_VERSION = 2;
+const STORE_NAME = 'keys';
+const DELEGATE_STORE_NAME = 'delegates';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+export type KeystoreRecord = {
+  userId: string;
+  publicKey: string;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: 'AES-GCM';
+    iv: string;
+  };
+  ciphertext: string;
+  createdAt: string;
+};
+
+export type DelegateKeyRecord = {
+  /** `<network id>.<account id>` of the account the key signs for. */
+  id: string;
+  publicKey: string;
+  /** Generated with `extractable: false`; only usable through `crypto.subtle`. */
+  keyPair: CryptoKeyPair;
+  createdAt: string;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+      }
+      if (!request.result.objectStoreNames.contains(DELEGATE_STORE_NAME)) {
+        request.result.createObjectStore(DELEGATE_STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Unable to open the keystore.'));
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () =>
+        reject(transaction.error ?? new Error('Keystore transaction failed.'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/** Binds the ciphertext to its owner so records cannot be swapped between users. */
+const associatedData = (userId: string, publicKey: string) =>
+  new TextEncoder().encode(`${userId}:${publicKey}`);
+
+export const loadKeystoreRecord = async (userId: string): Promise<KeystoreRecord | null> => {
+  const record = await withStore<KeystoreRecord | undefined>('readonly', (store) =>
+    store.get(userId)
+  );
+  return record ?? null;
+};
+
+/**
+ * Generates a fresh keypair for `userId`, encrypts its seed with `passphrase`
+ * and persists it. Refuses to overwrite an existing record.
+ */
+export const createKeystore = async (userId: string, passphrase: string): Promise<Keypair> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+  }
+
+  if (await loadKeystoreRecord(userId)) {
+    throw new Error('A wallet already exists for this account. Unlock it instead.');
+  }
+
+  const keypair = Keypair.random();
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const seedBytes = new Uint8Array(keypair.rawSecretKey());
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: associatedData(userId, keypair.publicKey()) },
+    key,
+    seedBytes
+  );
+  seedBytes.fill(0);
+
+  const record: KeystoreRecord = {
+    userId,
+    publicKey: keypair.publicKey(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    createdAt: new Date().toISOString()
+  };
+
+  await withStore('readwrite', (store) => store.add(record));
+  return keypair;
+};
+
+/**
+ * Decrypts the stored seed for `userId`. Throws a user-facing error when the
+ * passphrase is wrong (AES-GCM authentication fails) or no wallet exists.
+ */
+export const unlockKeystore = async (userId: string, passphrase: string): Promise<Keypair> => {
+  const record = await loadKeystoreRecord(userId);
+  if (!record) {
+    throw new Error('No wallet found for this account.');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(record.kdf.salt), record.kdf.iterations);
+
+  let seed: ArrayBuffer;
+  try {
+    seed = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(record.cipher.iv),
+        additionalData: associatedData(record.userId, record.publicKey)
+      },
+      key,
+      fromBase64(record.ciphertext)
+    );
+  } catch {
+    throw new Error('Incorrect passphrase. Please try again.');
+  }
+
+  const seedBytes = new Uint8Array(seed);
+  const seedBuffer = Buffer.from(seedBytes);
+  let keypair: Keypair;
+  try {
+    keypair = Keypair.fromRawEd25519Seed(seedBuffer);
+  } finally {
+    seedBytes.fill(0);
+    seedBuffer.fill(0);
+  }
+
+  if (keypair.publicKey() !== record.publicKey) {
+    throw new Error('Stored wallet is corrupted: decrypted key does not match its public key.');
+  }
+
+  return keypair;
+};
+
+export const loadDelegateKey = async (id: string): Promise<DelegateKeyRecord | null> => {
+  const record = await withStore<DelegateKeyRecord | undefined>(
+    'readonly',
+    (store) => store.get(id),
+    DELEGATE_STORE_NAME
+  );
+  return record ?? null;
+};
+
+export const saveDelegateKey = async (record: DelegateKeyRecord): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(record), DELEGATE_STORE_NAME);
+};
+
+export const deleteDelegateKey = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id), DELEGATE_STORE_NAME);
+};
@@ -0,0 +1,143 @@
+/**
+ * Memos and destination addresses. Exchanges and custodial services share
+ * one deposit account between many customers and tell them apart by memo,
+ * or by a muxed `M...` address that embeds the customer id. A payment to
+ * such an account without a memo usually cannot be credited, so we check
+ * the destination (SEP-29 `config.memo_required` data entry, plus a list of
+ * known services) and block the payment until a memo is added.
+ */
+
+import { Memo, MuxedAccount, StrKey } from 'stellar-sdk';
+
+import { createHorizonServer } from './horizon';
+import type { NetworkId, NetworkProfile } from './networks';
+import { NetworkError, ValidationError, toStellarError } from './stellarErrors';
+
+export type MemoType = 'none' | 'text' | 'id' | 'hash' | 'return';
+
+export const MEMO_TYPES: Record<MemoType, { label: string; placeholder: string }> = {
+  none: { label: 'No memo', placeholder: '' },
+  text: { label: 'Text', placeholder: 'Up to 28 bytes' },
+  id: { label: 'ID', placeholder: '1234567890' },
+  hash: { label: 'Hash', placeholder: '64 hex characters' },
+  return: { label: 'Return', placeholder: '64 hex characters' }
+};
+
+export type MemoInput = {
+  type: MemoType;
+  value: string;
+};
+
+export const EMPTY_MEMO: MemoInput = { type: 'none', value: '' };
+
+/** Deposit accounts known to need a memo, for services that don't publish SEP-29. */
+export const KNOWN_MEMO_DESTINATIONS: Record<NetworkId, { address: string; name: string }[]> = {
+  mainnet: [{ address: 'GABFQIK63R2NETJM7T673EAMZN4RJLLGP3OFUEJU5SZVTGWUKULZJNL6', name: 'Binance' }],
+  testnet: [],
+  futurenet: [],
+  local: []
+};
+
+const MAX_TEXT_MEMO_BYTES = 28;
+
+const MAX_ID_MEMO = 2n ** 64n - 1n;
+
+const HASH_PATTERN = /^[0-9a-fA-F]{64}$/;
+
+/** Converts the memo form fields into a `Memo`, or `undefined` for no memo. */
+export const parseMemo = ({ type, value }: MemoInput): Memo | undefined => {
+  const trimmed = value.trim();
+  if (type === 'none') {
+    return undefined;
+  }
+  if (!trimmed) {
+    throw new ValidationError('Enter a memo value or choose "No memo".');
+  }
+
+  switch (type) {
+    case 'text':
+      if (new TextEncoder().encode(trimmed).length > MAX_TEXT_MEMO_BYTES) {
+        throw new ValidationError(`Text memos are limited to ${MAX_TEXT_MEMO_BYTES} bytes.`);
+      }
+      return Memo.text(trimmed);
+    case 'id':
+      if (!/^\d+$/.test(trimmed) || BigInt(trimmed) > MAX_ID_MEMO) {
+        throw new ValidationError('ID memos must be a whole number below 2^64.');
+      }
+      return Memo.id(trimmed);
+    case 'hash':
+    case 'return':
+      if (!HASH_PATTERN.test(trimmed)) {
+        throw new ValidationError(`${MEMO_TYPES[type].label} memos must be 64 hex characters.`);
+      }
+      return type === 'hash' ? Memo.hash(trimmed) : Memo.return(trimmed);
+  }
+};
+
+export const isMuxedAddress = (address: string) => StrKey.isValidMed25519PublicKey(address);
+
+/** Throws unless `address` is a valid `G...` or muxed `M...` account address. */
+export const assertPaymentDestination = (address: string): void => {
+  if (!StrKey.isValidEd25519PublicKey(address) && !isMuxedAddress(address)) {
+    throw new ValidationError('Destination must be a valid Stellar address (G... or M...).');
+  }
+};
+
+/** The underlying `G...` account of a muxed address (or the address itself). */
+export const baseAccountOf = (address: string): string =>
+  isMuxedAddress(address) ? MuxedAccount.fromAddress(address, '0').baseAccount().accountId() : address;
+
+export type MemoRequirement = {
+  required: boolean;
+  /** Name of the service when it comes from the known destinations list. */
+  service?: string;
+};
+
+const SEP29_KEY = 'config.memo_required';
+
+/**
+ * Whether payments to `destination` need a memo. Muxed addresses never do,
+ * since the mux id already identifies the recipient.
+ */
+export const checkMemoRequirement = async (
+  network: NetworkProfile,
+  destination: string
+): Promise<MemoRequirement> => {
+  if (isMuxedAddress(destination)) {
+    return { required: false };
+  }
+
+  const known = KNOWN_MEMO_DESTINATIONS[network.id].find((entry) => entry.address === destination);
+  if (known) {
+    return { required: true, service: known.name };
+  }
+
+  try {
+    const account = await createHorizonServer(network).loadAccount(destination);
+    // Horizon returns data entries base64 encoded; SEP-29 sets the value "1".
+    return { required: account.data_attr[SEP29_KEY] === btoa('1') };
+  } catch (err) {
+    const parsed = toStellarError(err, 'Unable to load the destination account.');
+    if (parsed instanceof NetworkError && parsed.status === 404) {
+      return { required: false };
+    }
+    throw parsed;
+  }
+};
+
+/** Blocks a payment to a memo-required destination that has no memo. */
+export const assertMemoProvided = async (
+  network: NetworkProfile,
+  destination: string,
+  memo: Memo | undefined
+): Promise<void> => {
+  if (memo) {
+    return;
+  }
+  const { required, service } = await checkMemoRequirement(network, destination);
+  if (required) {
+    throw new ValidationError(
+      `${service ?? 'This destination'} requires a memo to credit your payment. Add the memo they gave you.`
+    );
+  }
+};
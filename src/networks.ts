@@ -0,0 +1,112 @@
+/**
+ * Network profiles the wallet can target. Every Stellar helper receives one
+ * of these instead of reaching for hardcoded mainnet endpoints, so the same
+ * flows can be exercised on testnet, futurenet or a local quickstart node.
+ */
+
+import { Networks } from 'stellar-sdk';
+
+export type NetworkId = 'mainnet' | 'testnet' | 'futurenet' | 'local';
+
+export type AssetReference = {
+  code: string;
+  issuer: string;
+};
+
+export type NetworkProfile = {
+  id: NetworkId;
+  name: string;
+  horizonUrl: string;
+  sorobanRpcUrl: string;
+  passphrase: string;
+  blendPoolIds: string[];
+  /** Trustlines opened automatically once a new account is activated. */
+  activationAssets: AssetReference[];
+  friendbotUrl?: string;
+  /** Dollar stablecoin used to price other assets from the DEX. */
+  usdAsset?: AssetReference;
+  /** SEP-24 anchor offered on the Deposit / Withdraw screen. */
+  anchorDomain?: string;
+  /** Local nodes are served over plain HTTP, which the SDK rejects by default. */
+  allowHttp?: boolean;
+};
+
+export const NETWORK_PROFILES: Record<NetworkId, NetworkProfile> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    horizonUrl: 'https://horizon.stellar.org',
+    sorobanRpcUrl: 'https://mainnet.sorobanrpc.com',
+    passphrase: Networks.PUBLIC,
+    blendPoolIds: ['CCCCIQSDILITHMM7PBSLVDT5MISSY7R26MNZXCX4H7J5JQ5FPIYOGYFS'],
+    activationAssets: [
+      { code: 'CETES', issuer: 'GCRYUGD5NVARGXT56XEZI5CIFCQETYHAPQQTHO2O3IQZTHDH4LATMYWC' },
+      { code: 'USDC', issuer: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN' }
+    ],
+    usdAsset: { code: 'USDC', issuer: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN' }
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'Testnet',
+    horizonUrl: 'https://horizon-testnet.stellar.org',
+    sorobanRpcUrl: 'https://soroban-testnet.stellar.org',
+    passphrase: Networks.TESTNET,
+    blendPoolIds: [],
+    activationAssets: [],
+    friendbotUrl: 'https://friendbot.stellar.org',
+    anchorDomain: 'testanchor.stellar.org'
+  },
+  futurenet: {
+    id: 'futurenet',
+    name: 'Futurenet',
+    horizonUrl: 'https://horizon-futurenet.stellar.org',
+    sorobanRpcUrl: 'https://rpc-futurenet.stellar.org',
+    passphrase: Networks.FUTURENET,
+    blendPoolIds: [],
+    activationAssets: [],
+    friendbotUrl: 'https://friendbot-futurenet.stellar.org'
+  },
+  local: {
+    id: 'local',
+    name: 'Local Quickstart',
+    horizonUrl: 'http://localhost:8000',
+    sorobanRpcUrl: 'http://localhost:8000/soroban/rpc',
+    passphrase: Networks.STANDALONE,
+    blendPoolIds: [],
+    activationAssets: [],
+    friendbotUrl: 'http://localhost:8000/friendbot',
+    anchorDomain: 'localhost:8080',
+    allowHttp: true
+  }
+};
+
+export const DEFAULT_NETWORK_ID: NetworkId = 'mainnet';
+
+const NETWORK_STORAGE_KEY = 'supercetes.network';
+
+const isNetworkId = (value: unknown): value is NetworkId =>
+  typeof value === 'string' && value in NETWORK_PROFILES;
+
+/**
+ * Reads the last selected network from localStorage, falling back to mainnet
+ * when nothing (or something unrecognised) has been stored.
+ */
+export const loadStoredNetworkId = (): NetworkId => {
+  try {
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    return isNetworkId(stored) ? stored : DEFAULT_NETWORK_ID;
+  } catch {
+    return DEFAULT_NETWORK_ID;
+  }
+};
+
+export const persistNetworkId = (networkId: NetworkId): void => {
+  try {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, networkId);
+  } catch {
+    /* storage may be unavailable (private mode); the choice just won't persist */
+  }
+};
+
+export const isMainnet = (network: NetworkProfile): boolean =>
+  network.passphrase === Networks.PUBLIC;
@@ -0,0 +1,117 @@
+/**
+ * Cross-asset payments. Horizon's path finding quotes how much of one asset
+ * buys a given amount of another through the DEX and AMM order books; the
+ * chosen quote becomes a `pathPaymentStrictSend` or
+ * `pathPaymentStrictReceive` operation with a slippage bound, so the user
+ * can pay in an asset they don't hold.
+ */
+
+import { Asset, Horizon } from 'stellar-sdk';
+
+import { formatUnits, parseDecimalAmount } from './amounts';
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+
+/**
+ * `strict-send` fixes the amount debited and lets the received amount float;
+ * `strict-receive` fixes the amount delivered and lets the cost float.
+ */
+export type PathMode = 'strict-send' | 'strict-receive';
+
+export type PathQuote = {
+  mode: PathMode;
+  sendAsset: Asset;
+  sendAmount: string;
+  destAsset: Asset;
+  destAmount: string;
+  /** Intermediate assets, excluding the send and destination assets. */
+  path: Asset[];
+};
+
+export type PathQuery = {
+  mode: PathMode;
+  sendAsset: Asset;
+  destAsset: Asset;
+  /** Send amount for strict-send, destination amount for strict-receive. */
+  amount: string;
+};
+
+/** Default tolerance for price movement between quoting and submitting (1%). */
+export const DEFAULT_SLIPPAGE_BPS = 100;
+
+export const MAX_SLIPPAGE_BPS = 5_000;
+
+const STELLAR_DECIMALS = 7;
+
+const MAX_QUOTES = 5;
+
+const toAsset = (type: string, code?: string, issuer?: string): Asset =>
+  type === 'native' || !code || !issuer ? Asset.native() : new Asset(code, issuer);
+
+const toQuote = (mode: PathMode, record: Horizon.ServerApi.PaymentPathRecord): PathQuote => ({
+  mode,
+  sendAsset: toAsset(record.source_asset_type, record.source_asset_code, record.source_asset_issuer),
+  sendAmount: record.source_amount,
+  destAsset: toAsset(
+    record.destination_asset_type,
+    record.destination_asset_code,
+    record.destination_asset_issuer
+  ),
+  destAmount: record.destination_amount,
+  path: record.path.map((hop) => toAsset(hop.asset_type, hop.asset_code, hop.asset_issuer))
+});
+
+/**
+ * Best routes for the query, most favourable first: highest amount received
+ * for strict-send, lowest amount spent for strict-receive.
+ */
+export const findPaymentPaths = async (
+  network: NetworkProfile,
+  query: PathQuery
+): Promise<PathQuote[]> => {
+  parseDecimalAmount(query.amount, STELLAR_DECIMALS);
+
+  const server = createHorizonServer(network);
+  const amount = query.amount.trim();
+  const page =
+    query.mode === 'strict-send'
+      ? await server.strictSendPaths(query.sendAsset, amount, [query.destAsset]).call()
+      : await server.strictReceivePaths([query.sendAsset], query.destAsset, amount).call();
+
+  return page.records
+    .map((record) => toQuote(query.mode, record))
+    .sort((a, b) =>
+      query.mode === 'strict-send'
+        ? Number(b.destAmount) - Number(a.destAmount)
+        : Number(a.sendAmount) - Number(b.sendAmount)
+    )
+    .slice(0, MAX_QUOTES);
+};
+
+/**
+ * The amount the slippage bound applies to: the minimum received for
+ * strict-send (rounded down, but never below one stroop, which the network
+ * rejects as zero) or the maximum spent for strict-receive (rounded up).
+ */
+export const slippageBound = (quote: PathQuote, slippageBps: number): string => {
+  const scale = 10_000n;
+  const bps = BigInt(slippageBps);
+  if (quote.mode === 'strict-send') {
+    const units = parseDecimalAmount(quote.destAmount, STELLAR_DECIMALS);
+    const minimum = (units * (scale - bps)) / scale;
+    return formatUnits(minimum > 0n ? minimum : 1n, STELLAR_DECIMALS);
+  }
+
+  const units = parseDecimalAmount(quote.sendAmount, STELLAR_DECIMALS);
+  return formatUnits((units * (scale + bps) + scale - 1n) / scale, STELLAR_DECIMALS);
+};
+
+/** Destination units received per unit sent. */
+export const quoteRate = (quote: PathQuote): number =>
+  Number(quote.destAmount) / Number(quote.sendAmount);
+
+export const assetCodeOf = (asset: Asset): string => (asset.isNative() ? 'XLM' : asset.getCode());
+
+/** Route as a chain of asset codes, e.g. `XLM → USDC`. */
+export const describeRoute = (quote: PathQuote): string =>
+  [quote.sendAsset, ...quote.path, quote.destAsset].map(assetCodeOf).join(' → ');
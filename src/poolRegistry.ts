@@ -0,0 +1,113 @@
+/**
+ * Blend pool registry. Every pool ID configured for the active network is
+ * loaded with `PoolV2.load`; the pool name comes from its on-chain metadata
+ * and each reserve is labelled with its token's symbol, so the UI can offer
+ * pickers instead of asking users to paste contract IDs.
+ */
+
+import { TokenMetadata } from '@blend-capital/blend-sdk';
+
+import type { NetworkProfile } from './networks';
+import {
+  PoolSnapshot,
+  blendNetworkFor,
+  formatStellarError,
+  poolData
+} from './stellarMainnetExample';
+
+export type ReserveInfo = {
+  assetId: string;
+  symbol: string;
+  decimals: number;
+  /** Classic asset behind the token contract, when it is a Stellar Asset Contract. */
+  assetCode?: string;
+  assetIssuer?: string;
+  collateralFactor: number;
+  liabilityFactor: number;
+  supplyApy: number;
+  borrowApy: number;
+};
+
+export type PoolRegistryEntry = {
+  id: string;
+  name: string;
+  reserves: ReserveInfo[];
+  snapshot?: PoolSnapshot;
+  /** Set when the pool failed to load; other pools are unaffected. */
+  error?: string;
+};
+
+/** Token metadata never changes, so it is cached per network and contract. */
+const tokenMetadataCache = new Map<string, Promise<TokenMetadata>>();
+
+const loadTokenMetadata = (network: NetworkProfile, assetId: string) => {
+  const key = `${network.id}:${assetId}`;
+  let cached = tokenMetadataCache.get(key);
+  if (!cached) {
+    cached = TokenMetadata.load(blendNetworkFor(network), assetId);
+    cached.catch(() => tokenMetadataCache.delete(key));
+    tokenMetadataCache.set(key, cached);
+  }
+  return cached;
+};
+
+const shortId = (id: string) => `${id.slice(0, 4)}…${id.slice(-4)}`;
+
+const describeReserves = async (
+  network: NetworkProfile,
+  snapshot: PoolSnapshot
+): Promise<ReserveInfo[]> =>
+  Promise.all(
+    Array.from(snapshot.pool.reserves.values()).map(async (reserve) => {
+      let metadata: TokenMetadata | undefined;
+      try {
+        metadata = await loadTokenMetadata(network, reserve.assetId);
+      } catch (err) {
+        console.warn(`Unable to load token metadata for ${reserve.assetId}`, err);
+      }
+
+      const asset = metadata?.asset;
+      return {
+        assetId: reserve.assetId,
+        symbol: metadata?.symbol || (asset ? asset.getCode() : shortId(reserve.assetId)),
+        decimals: reserve.config.decimals,
+        assetCode: asset?.getCode(),
+        assetIssuer: asset && !asset.isNative() ? asset.getIssuer() : undefined,
+        collateralFactor: reserve.getCollateralFactor(),
+        liabilityFactor: reserve.getLiabilityFactor(),
+        supplyApy: reserve.estSupplyApy,
+        borrowApy: reserve.estBorrowApy
+      };
+    })
+  );
+
+const loadPoolEntry = async (
+  network: NetworkProfile,
+  poolId: string,
+  userId: string
+): Promise<PoolRegistryEntry> => {
+  try {
+    const snapshot = await poolData(network, poolId, userId);
+    return {
+      id: poolId,
+      name: snapshot.pool.metadata.name || shortId(poolId),
+      reserves: await describeReserves(network, snapshot),
+      snapshot
+    };
+  } catch (err) {
+    console.error(`Unable to load pool ${poolId}`, err);
+    return {
+      id: poolId,
+      name: shortId(poolId),
+      reserves: [],
+      error: formatStellarError(err, 'Unable to load pool data. Inspect console for details.')
+    };
+  }
+};
+
+/** Loads every pool configured for `network`, in configuration order. */
+export const loadPoolRegistry = (
+  network: NetworkProfile,
+  userId: string
+): Promise<PoolRegistryEntry[]> =>
+  Promise.all(network.blendPoolIds.map((poolId) => loadPoolEntry(network, poolId, userId)));
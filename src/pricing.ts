@@ -0,0 +1,369 @@
+/**
+ * Portfolio valuation. Every holding, whether a wallet balance or a Blend
+ * position, is priced in US dollars:
+ * - from the Blend pool oracle already loaded with the pool snapshot, when
+ *   the asset is a pool reserve. Oracles quote in their own base asset
+ *   (SEP-40 `base()`), which is converted to dollars: a `USD` symbol is
+ *   taken as is, a token is priced on the DEX like any other asset;
+ * - otherwise from the DEX mid-price against the network's dollar
+ *   stablecoin (`usdAsset`).
+ *
+ * Dollar values are then converted to the chosen fiat currency. Holdings
+ * with no price, or an oracle price whose base can't be converted, are
+ * listed as unpriced and left out of the totals.
+ */
+
+import {
+  Account,
+  Asset,
+  Contract,
+  SorobanRpc,
+  TimeoutInfinite,
+  TransactionBuilder,
+  scValToNative
+} from 'stellar-sdk';
+
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+import type { PoolRegistryEntry } from './poolRegistry';
+import { NetworkError } from './stellarErrors';
+import {
+  WalletBalance,
+  balanceContractId,
+  createSorobanServer
+} from './stellarMainnetExample';
+
+export type Fiat = 'USD' | 'MXN';
+
+export const FIATS: Record<Fiat, { label: string; locale: string }> = {
+  MXN: { label: 'Mexican peso (MXN)', locale: 'es-MX' },
+  USD: { label: 'US dollar (USD)', locale: 'en-US' }
+};
+
+export const DEFAULT_FIAT: Fiat = 'MXN';
+
+export type PriceSource = 'oracle' | 'dex' | 'stablecoin';
+
+export type Holding = {
+  /** Asset code, e.g. `XLM` or `CETES`. */
+  asset: string;
+  location: 'wallet' | 'blend';
+  /** Pool name for Blend positions. */
+  detail?: string;
+  /** Net amount; negative for Blend debt. */
+  amount: number;
+  priceSource?: PriceSource;
+  /** Value in the portfolio's fiat; undefined when unpriced. */
+  value?: number;
+};
+
+export type AllocationSlice = {
+  asset: string;
+  value: number;
+  /** Fraction of the gross (asset) value, 0–1. */
+  share: number;
+};
+
+export type Portfolio = {
+  fiat: Fiat;
+  holdings: Holding[];
+  allocation: AllocationSlice[];
+  netWorth: number;
+  unpriced: string[];
+};
+
+/** Public FX rates (no key required), quoted per US dollar. */
+const FX_RATES_URL = 'https://open.er-api.com/v6/latest/USD';
+
+const FX_TTL_MS = 60 * 60_000;
+
+let fxCache: { fetchedAt: number; rates: Record<string, number> } | null = null;
+
+/** Units of `fiat` per US dollar. */
+export const fetchFiatRate = async (fiat: Fiat): Promise<number> => {
+  if (fiat === 'USD') {
+    return 1;
+  }
+  if (!fxCache || Date.now() - fxCache.fetchedAt > FX_TTL_MS) {
+    const response = await fetch(FX_RATES_URL);
+    if (!response.ok) {
+      throw new NetworkError(`Unable to load ${fiat} exchange rates.`, response.status);
+    }
+    const { rates } = (await response.json()) as { rates: Record<string, number> };
+    fxCache = { fetchedAt: Date.now(), rates };
+  }
+  const rate = fxCache.rates[fiat];
+  if (!rate) {
+    throw new NetworkError(`No exchange rate available for ${fiat}.`);
+  }
+  return rate;
+};
+
+const assetOf = (code?: string, issuer?: string) =>
+  code && issuer ? new Asset(code, issuer) : Asset.native();
+
+const codeOf = (asset: Asset) => (asset.isNative() ? 'XLM' : asset.getCode());
+
+/** USD price of `asset` from the DEX order book against the network's stablecoin. */
+const dexPrice = async (network: NetworkProfile, asset: Asset): Promise<number | undefined> => {
+  if (!network.usdAsset) {
+    return undefined;
+  }
+  const usd = new Asset(network.usdAsset.code, network.usdAsset.issuer);
+  if (asset.equals(usd)) {
+    return 1;
+  }
+
+  try {
+    const book = await createHorizonServer(network).orderbook(asset, usd).limit(1).call();
+    const bid = Number(book.bids[0]?.price ?? 0);
+    const ask = Number(book.asks[0]?.price ?? 0);
+    if (bid && ask) {
+      return (bid + ask) / 2;
+    }
+    return bid || ask || undefined;
+  } catch (err) {
+    console.warn(`Unable to load the ${codeOf(asset)} order book`, err);
+    return undefined;
+  }
+};
+
+/** What an oracle quotes its prices in: a token contract or a symbol such as `USD`. */
+type OracleBase = { contractId: string } | { symbol: string };
+
+/** Simulations don't check the source account, so any valid key will do. */
+const SIMULATION_SOURCE = 'GANXGJV2RNOFMOSQ2DTI3RKDBAVERXUVFC27KW3RLVQCLB3RYNO3AAI4';
+
+/** An oracle's base never changes, so it is cached per network and contract. */
+const oracleBaseCache = new Map<string, Promise<OracleBase | undefined>>();
+
+const readOracleBase = async (
+  network: NetworkProfile,
+  oracleId: string
+): Promise<OracleBase | undefined> => {
+  const transaction = new TransactionBuilder(new Account(SIMULATION_SOURCE, '0'), {
+    fee: '100',
+    networkPassphrase: network.passphrase
+  })
+    .addOperation(new Contract(oracleId).call('base'))
+    .setTimeout(TimeoutInfinite)
+    .build();
+  const simulation = await createSorobanServer(network).simulateTransaction(transaction);
+  if (!SorobanRpc.Api.isSimulationSuccess(simulation) || !simulation.result) {
+    return undefined;
+  }
+  // SEP-40 `Asset` is `Stellar(Address)` or `Other(Symbol)`.
+  const [kind, value] = scValToNative(simulation.result.retval) as [string, string];
+  if (kind === 'Stellar') {
+    return { contractId: value };
+  }
+  return kind === 'Other' ? { symbol: value } : undefined;
+};
+
+const loadOracleBase = (network: NetworkProfile, oracleId: string) => {
+  const key = `${network.id}:${oracleId}`;
+  let cached = oracleBaseCache.get(key);
+  if (!cached) {
+    cached = readOracleBase(network, oracleId).catch((err) => {
+      console.warn(`Unable to read the base asset of oracle ${oracleId}`, err);
+      oracleBaseCache.delete(key);
+      return undefined;
+    });
+    oracleBaseCache.set(key, cached);
+  }
+  return cached;
+};
+
+/** Classic asset behind a token contract, when we know it. */
+const classicAssetOf = (
+  network: NetworkProfile,
+  pools: PoolRegistryEntry[],
+  contractId: string
+): Asset | undefined => {
+  const candidates = [
+    Asset.native(),
+    ...(network.usdAsset ? [new Asset(network.usdAsset.code, network.usdAsset.issuer)] : []),
+    ...pools.flatMap((entry) =>
+      entry.reserves.flatMap((info) =>
+        info.assetCode ? [assetOf(info.assetCode, info.assetIssuer)] : []
+      )
+    )
+  ];
+  return candidates.find((asset) => asset.contractId(network.passphrase) === contractId);
+};
+
+/** Oracle price of a token contract from any loaded pool that lists it, with that oracle. */
+const oraclePrice = (
+  pools: PoolRegistryEntry[],
+  contractId: string
+): { price: number; oracleId: string } | undefined => {
+  for (const entry of pools) {
+    const oracle = entry.snapshot?.poolOracle;
+    const price = oracle?.getPriceFloat(contractId);
+    if (oracle && price !== undefined) {
+      return { price, oracleId: oracle.oracleId };
+    }
+  }
+  return undefined;
+};
+
+type Position = Omit<Holding, 'priceSource' | 'value'> & { assetRef: Asset; contractId?: string };
+
+const walletPositions = (network: NetworkProfile, balances: WalletBalance[]): Position[] =>
+  balances
+    .filter((balance) => balance.assetType !== 'liquidity_pool_shares')
+    .map((balance) => {
+      const assetRef = assetOf(balance.assetCode, balance.assetIssuer);
+      return {
+        asset: codeOf(assetRef),
+        location: 'wallet',
+        amount: Number(balance.balance),
+        assetRef,
+        contractId: balanceContractId(balance, network)
+      };
+    });
+
+const blendPositions = (pools: PoolRegistryEntry[]): Position[] =>
+  pools.flatMap((entry) => {
+    const snapshot = entry.snapshot;
+    if (!snapshot) {
+      return [];
+    }
+    return entry.reserves.flatMap((info): Position[] => {
+      const reserve = snapshot.pool.reserves.get(info.assetId);
+      if (!reserve) {
+        return [];
+      }
+      const { poolUser } = snapshot;
+      const amount =
+        poolUser.getSupplyFloat(reserve) +
+        poolUser.getCollateralFloat(reserve) -
+        poolUser.getLiabilitiesFloat(reserve);
+      if (amount === 0) {
+        return [];
+      }
+      return [
+        {
+          asset: info.assetCode ?? info.symbol,
+          location: 'blend',
+          detail: entry.name,
+          amount,
+          assetRef: assetOf(info.assetCode, info.assetIssuer),
+          contractId: info.assetId
+        }
+      ];
+    });
+  });
+
+/** Values wallet balances and Blend positions in `fiat`. */
+export const buildPortfolio = async (
+  network: NetworkProfile,
+  balances: WalletBalance[],
+  pools: PoolRegistryEntry[],
+  fiat: Fiat
+): Promise<Portfolio> => {
+  const fiatRate = await fetchFiatRate(fiat);
+  const positions = [...walletPositions(network, balances), ...blendPositions(pools)];
+
+  const dexPrices = new Map<string, Promise<number | undefined>>();
+  const dexPriceOf = (asset: Asset) => {
+    const key = asset.toString();
+    let cached = dexPrices.get(key);
+    if (!cached) {
+      cached = dexPrice(network, asset);
+      dexPrices.set(key, cached);
+    }
+    return cached;
+  };
+
+  /** Dollars per unit of the oracle's base, or undefined when it can't be converted. */
+  const basePrices = new Map<string, Promise<number | undefined>>();
+  const basePriceOf = (oracleId: string) => {
+    let cached = basePrices.get(oracleId);
+    if (!cached) {
+      cached = loadOracleBase(network, oracleId).then((base) => {
+        if (!base) {
+          return undefined;
+        }
+        if ('symbol' in base) {
+          return base.symbol === 'USD' ? 1 : undefined;
+        }
+        const asset = classicAssetOf(network, pools, base.contractId);
+        return asset ? dexPriceOf(asset) : undefined;
+      });
+      basePrices.set(oracleId, cached);
+    }
+    return cached;
+  };
+
+  const priceOf = async (
+    position: Position
+  ): Promise<{ usd?: number; source?: PriceSource }> => {
+    const fromOracle = position.contractId ? oraclePrice(pools, position.contractId) : undefined;
+    if (fromOracle !== undefined) {
+      const basePrice = await basePriceOf(fromOracle.oracleId);
+      return basePrice === undefined ? {} : { usd: fromOracle.price * basePrice, source: 'oracle' };
+    }
+    const fromDex = await dexPriceOf(position.assetRef);
+    if (fromDex === undefined) {
+      return {};
+    }
+    return { usd: fromDex, source: fromDex === 1 ? 'stablecoin' : 'dex' };
+  };
+
+  const holdings: Holding[] = await Promise.all(
+    positions.map(async (position) => {
+      const { usd, source } = await priceOf(position);
+      const { assetRef: _assetRef, contractId: _contractId, ...holding } = position;
+      return {
+        ...holding,
+        priceSource: source,
+        value: usd === undefined ? undefined : holding.amount * usd * fiatRate
+      };
+    })
+  );
+
+  const byAsset = new Map<string, number>();
+  holdings.forEach((holding) => {
+    if (holding.value !== undefined && holding.value > 0) {
+      byAsset.set(holding.asset, (byAsset.get(holding.asset) ?? 0) + holding.value);
+    }
+  });
+  const gross = Array.from(byAsset.values()).reduce((sum, value) => sum + value, 0);
+
+  return {
+    fiat,
+    holdings,
+    allocation: Array.from(byAsset.entries())
+      .map(([asset, value]) => ({ asset, value, share: gross > 0 ? value / gross : 0 }))
+      .sort((a, b) => b.value - a.value),
+    netWorth: holdings.reduce((sum, holding) => sum + (holding.value ?? 0), 0),
+    unpriced: Array.from(
+      new Set(holdings.filter((holding) => holding.value === undefined).map((h) => h.asset))
+    )
+  };
+};
+
+export const formatFiat = (value: number, fiat: Fiat) =>
+  value.toLocaleString(FIATS[fiat].locale, { style: 'currency', currency: fiat });
+
+const FIAT_STORAGE_KEY = 'supercetes.fiat';
+
+const isFiat = (value: unknown): value is Fiat => typeof value === 'string' && value in FIATS;
+
+export const loadStoredFiat = (): Fiat => {
+  try {
+    const stored = window.localStorage.getItem(FIAT_STORAGE_KEY);
+    return isFiat(stored) ? stored : DEFAULT_FIAT;
+  } catch {
+    return DEFAULT_FIAT;
+  }
+};
+
+export const persistFiat = (fiat: Fiat): void => {
+  try {
+    window.localStorage.setItem(FIAT_STORAGE_KEY, fiat);
+  } catch {
+    /* storage may be unavailable (private mode); the choice just won't persist */
+  }
+};
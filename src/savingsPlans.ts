@@ -0,0 +1,423 @@
+/**
+ * Scheduled savings ("ahorro programado"). A plan moves a fixed amount of a
+ * reserve into a Blend pool on a cadence. Nothing runs in the background:
+ * when the app opens we work out which runs came due since the plan was last
+ * settled and offer them for approval in one pool `submit` per pool, made of
+ * supply-collateral requests. Plans with auto-execute on are signed by the
+ * delegated signer instead (see `delegatedSigner.ts`). Every run ends up in
+ * the log as executed, skipped or failed; failed runs stay due and are
+ * offered again. Runs whose transaction timed out are logged as pending and
+ * resolved to executed or failed on a later visit.
+ */
+
+import { Address, scValToNative, xdr } from 'stellar-sdk';
+
+import type { Request } from '@blend-capital/blend-sdk';
+
+import { parseDecimalAmount } from './amounts';
+import { PoolAction, buildPoolRequests } from './blendRequests';
+import type { NetworkProfile } from './networks';
+import { ValidationError } from './stellarErrors';
+import type { ReviewTransaction } from './stellarMainnetExample';
+
+export type Cadence = 'weekly' | 'biweekly' | 'monthly';
+
+export const CADENCES: Record<Cadence, { label: string }> = {
+  weekly: { label: 'Every week' },
+  biweekly: { label: 'Every two weeks' },
+  monthly: { label: 'Every month (same day)' }
+};
+
+export type SavingsPlan = {
+  id: string;
+  poolId: string;
+  /** Reserve asset contract address. */
+  assetId: string;
+  symbol: string;
+  decimals: number;
+  /** Amount per run, as a decimal string in the reserve's units. */
+  amount: string;
+  cadence: Cadence;
+  /** First run, in milliseconds since the epoch. */
+  startAt: number;
+  /** No runs are scheduled after this time. */
+  endAt?: number;
+  /** Sign due runs with the delegated signer instead of asking. */
+  autoExecute: boolean;
+  paused: boolean;
+  /** Scheduled time of the latest run that was executed, pending or skipped. */
+  settledThrough?: number;
+};
+
+export type SavingsPlanDraft = Omit<SavingsPlan, 'id' | 'paused' | 'settledThrough'>;
+
+export type DueRun = {
+  plan: SavingsPlan;
+  scheduledAt: number;
+};
+
+export type PlanRunStatus = 'executed' | 'pending' | 'skipped' | 'failed';
+
+/** A submitted transaction whose outcome was not known yet. */
+export type PendingSubmission = {
+  hash: string;
+  submittedAt: number;
+  expiresAt?: number;
+};
+
+export type PlanRunRecord = {
+  planId: string;
+  scheduledAt: number;
+  recordedAt: number;
+  status: PlanRunStatus;
+  amount: string;
+  symbol: string;
+  detail?: string;
+  /** Set while `status` is 'pending'. */
+  pending?: PendingSubmission;
+};
+
+export type SavingsState = {
+  plans: SavingsPlan[];
+  runs: PlanRunRecord[];
+};
+
+export type PlanBatch = {
+  poolId: string;
+  runs: DueRun[];
+  actions: PoolAction[];
+};
+
+export const EMPTY_SAVINGS: SavingsState = { plans: [], runs: [] };
+
+/** Identifies a run across re-collections of the due list. */
+export const dueRunKey = (run: DueRun): string => `${run.plan.id}:${run.scheduledAt}`;
+
+/** Only this many overdue runs per plan are offered; older ones are logged as skipped. */
+const MAX_CATCH_UP_RUNS = 4;
+
+const MAX_LOGGED_RUNS = 200;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const storageKey = (network: NetworkProfile, accountId: string) =>
+  `supercetes.savings.${network.id}.${accountId}`;
+
+export const loadSavings = (network: NetworkProfile, accountId: string): SavingsState => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(network, accountId));
+    if (!stored) {
+      return EMPTY_SAVINGS;
+    }
+    const parsed = JSON.parse(stored) as Partial<SavingsState>;
+    return { plans: parsed.plans ?? [], runs: parsed.runs ?? [] };
+  } catch {
+    return EMPTY_SAVINGS;
+  }
+};
+
+const persistSavings = (
+  network: NetworkProfile,
+  accountId: string,
+  state: SavingsState
+): SavingsState => {
+  try {
+    window.localStorage.setItem(storageKey(network, accountId), JSON.stringify(state));
+  } catch (err) {
+    console.warn('Unable to save savings plans', err);
+  }
+  return state;
+};
+
+/** Adds `months` to `start`, keeping its day of month (clamped to the month's last day). */
+const addMonths = (start: number, months: number): number => {
+  const date = new Date(start);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDay));
+  return date.getTime();
+};
+
+/** Scheduled time of the plan's `index`-th run (0 is the first). */
+export const runTime = (plan: SavingsPlan, index: number): number => {
+  switch (plan.cadence) {
+    case 'weekly':
+      return plan.startAt + index * 7 * DAY_MS;
+    case 'biweekly':
+      return plan.startAt + index * 14 * DAY_MS;
+    case 'monthly':
+      return addMonths(plan.startAt, index);
+  }
+};
+
+/** Scheduled runs after `settledThrough` up to `until`, oldest first. */
+const scheduledRuns = (plan: SavingsPlan, until: number): number[] => {
+  const runs: number[] = [];
+  for (let index = 0; ; index += 1) {
+    const at = runTime(plan, index);
+    if (at > until || (plan.endAt !== undefined && at > plan.endAt)) {
+      return runs;
+    }
+    if (plan.settledThrough === undefined || at > plan.settledThrough) {
+      runs.push(at);
+    }
+  }
+};
+
+/** The plan's next run after `now`, or `undefined` once it has ended. */
+export const nextRunAfter = (plan: SavingsPlan, now: number): number | undefined => {
+  for (let index = 0; ; index += 1) {
+    const at = runTime(plan, index);
+    if (plan.endAt !== undefined && at > plan.endAt) {
+      return undefined;
+    }
+    if (at > now) {
+      return at;
+    }
+  }
+};
+
+export const createSavingsPlan = (
+  network: NetworkProfile,
+  accountId: string,
+  draft: SavingsPlanDraft
+): SavingsState => {
+  if (parseDecimalAmount(draft.amount, draft.decimals) <= 0n) {
+    throw new ValidationError('Savings amount must be greater than zero.');
+  }
+  if (draft.endAt !== undefined && draft.endAt < draft.startAt) {
+    throw new ValidationError('The end date must be after the first run.');
+  }
+
+  const state = loadSavings(network, accountId);
+  const plan: SavingsPlan = {
+    ...draft,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    paused: false
+  };
+  return persistSavings(network, accountId, { ...state, plans: [...state.plans, plan] });
+};
+
+export const updateSavingsPlan = (
+  network: NetworkProfile,
+  accountId: string,
+  planId: string,
+  changes: Partial<Pick<SavingsPlan, 'paused' | 'autoExecute'>>
+): SavingsState => {
+  const state = loadSavings(network, accountId);
+  return persistSavings(network, accountId, {
+    ...state,
+    plans: state.plans.map((plan) => (plan.id === planId ? { ...plan, ...changes } : plan))
+  });
+};
+
+export const deleteSavingsPlan = (
+  network: NetworkProfile,
+  accountId: string,
+  planId: string
+): SavingsState => {
+  const state = loadSavings(network, accountId);
+  return persistSavings(network, accountId, {
+    ...state,
+    plans: state.plans.filter((plan) => plan.id !== planId)
+  });
+};
+
+const logRuns = (
+  state: SavingsState,
+  runs: DueRun[],
+  status: PlanRunStatus,
+  detail?: string,
+  pending?: PendingSubmission,
+  now = Date.now()
+): SavingsState => {
+  const records = runs.map(
+    ({ plan, scheduledAt }): PlanRunRecord => ({
+      planId: plan.id,
+      scheduledAt,
+      recordedAt: now,
+      status,
+      amount: plan.amount,
+      symbol: plan.symbol,
+      detail,
+      pending
+    })
+  );
+  // Failed runs are retried; pending ones may still land, so they settle the
+  // plan like executed and skipped ones.
+  const settled = status === 'failed' ? [] : runs;
+  return {
+    plans: state.plans.map((plan) => {
+      const latest = Math.max(
+        plan.settledThrough ?? -Infinity,
+        ...settled.filter((run) => run.plan.id === plan.id).map((run) => run.scheduledAt)
+      );
+      return Number.isFinite(latest) ? { ...plan, settledThrough: latest } : plan;
+    }),
+    runs: [...records, ...state.runs].slice(0, MAX_LOGGED_RUNS)
+  };
+};
+
+/** Records the outcome of `runs` and returns the updated state. */
+export const settleRuns = (
+  network: NetworkProfile,
+  accountId: string,
+  runs: DueRun[],
+  status: PlanRunStatus,
+  detail?: string,
+  pending?: PendingSubmission
+): SavingsState =>
+  persistSavings(
+    network,
+    accountId,
+    logRuns(loadSavings(network, accountId), runs, status, detail, pending)
+  );
+
+/** Distinct submissions still waiting for an outcome. */
+export const pendingSubmissions = (state: SavingsState): PendingSubmission[] => {
+  const byHash = new Map<string, PendingSubmission>();
+  state.runs.forEach((run) => {
+    if (run.status === 'pending' && run.pending) {
+      byHash.set(run.pending.hash, run.pending);
+    }
+  });
+  return Array.from(byHash.values());
+};
+
+/**
+ * Settles the pending runs of the transaction `hash`. Failed runs come due
+ * again unless a later run of the same plan has been settled since. Returns
+ * the updated state and the resolved runs whose plan still exists.
+ */
+export const resolvePendingRuns = (
+  network: NetworkProfile,
+  accountId: string,
+  hash: string,
+  status: 'executed' | 'failed',
+  detail?: string,
+  now = Date.now()
+): { state: SavingsState; runs: DueRun[] } => {
+  const state = loadSavings(network, accountId);
+  const resolved = state.runs.filter(
+    (run) => run.status === 'pending' && run.pending?.hash === hash
+  );
+  const runs = resolved.flatMap((record) => {
+    const plan = state.plans.find((entry) => entry.id === record.planId);
+    return plan ? [{ plan, scheduledAt: record.scheduledAt }] : [];
+  });
+
+  const plans =
+    status === 'executed'
+      ? state.plans
+      : state.plans.map((plan) => {
+          const times = resolved
+            .filter((record) => record.planId === plan.id)
+            .map((record) => record.scheduledAt);
+          if (times.length === 0 || (plan.settledThrough ?? -Infinity) > Math.max(...times)) {
+            return plan;
+          }
+          return { ...plan, settledThrough: Math.min(...times) - 1 };
+        });
+
+  const next = persistSavings(network, accountId, {
+    plans,
+    runs: state.runs.map((run) =>
+      resolved.includes(run) ? { ...run, status, detail, recordedAt: now, pending: undefined } : run
+    )
+  });
+  return { state: next, runs };
+};
+
+/**
+ * Runs of active plans that are due at `now`. Runs beyond the catch-up limit
+ * are logged as skipped first, so a long absence doesn't produce a huge batch.
+ */
+export const collectDueRuns = (
+  network: NetworkProfile,
+  accountId: string,
+  now = Date.now()
+): { state: SavingsState; due: DueRun[] } => {
+  const runsOf = (state: SavingsState) =>
+    state.plans
+      .filter((plan) => !plan.paused)
+      .map((plan) => scheduledRuns(plan, now).map((scheduledAt) => ({ plan, scheduledAt })));
+
+  let state = loadSavings(network, accountId);
+  const missed = runsOf(state).flatMap((runs) => runs.slice(0, -MAX_CATCH_UP_RUNS));
+  if (missed.length > 0) {
+    state = persistSavings(
+      network,
+      accountId,
+      logRuns(state, missed, 'skipped', 'Missed while the app was closed.', undefined, now)
+    );
+  }
+  return { state, due: runsOf(state).flat() };
+};
+
+/** Groups due runs into one supply-collateral batch per pool. */
+export const planBatches = (due: DueRun[]): PlanBatch[] => {
+  const batches = new Map<string, PlanBatch>();
+  due.forEach((run) => {
+    const batch = batches.get(run.plan.poolId) ?? { poolId: run.plan.poolId, runs: [], actions: [] };
+    batch.runs.push(run);
+    batch.actions.push({
+      type: 'supplyCollateral',
+      asset: run.plan.assetId,
+      amount: parseDecimalAmount(run.plan.amount, run.plan.decimals)
+    });
+    batches.set(run.plan.poolId, batch);
+  });
+  return Array.from(batches.values());
+};
+
+/**
+ * Review step for unattended runs: approves only a single `submit` call to
+ * the batch's pool, from and to `accountId`, whose requests are exactly the
+ * batch's, and rejects anything else rather than signing it unseen.
+ */
+export const approvePlanBatch =
+  (batch: PlanBatch, accountId: string): ReviewTransaction =>
+  async ({ transaction }) => {
+    const [operation] = transaction.operations;
+    if (
+      transaction.operations.length !== 1 ||
+      operation.type !== 'invokeHostFunction' ||
+      operation.func.switch() !== xdr.HostFunctionType.hostFunctionTypeInvokeContract()
+    ) {
+      return false;
+    }
+    const invocation = operation.func.invokeContract();
+    if (
+      invocation.functionName().toString() !== 'submit' ||
+      Address.fromScAddress(invocation.contractAddress()).toString() !== batch.poolId
+    ) {
+      return false;
+    }
+
+    let args: unknown[];
+    try {
+      args = invocation.args().map((arg) => scValToNative(arg));
+    } catch {
+      return false;
+    }
+    const [from, spender, to, requests] = args;
+    const expected = buildPoolRequests(batch.actions);
+    return (
+      args.length === 4 &&
+      from === accountId &&
+      spender === accountId &&
+      to === accountId &&
+      Array.isArray(requests) &&
+      requests.length === expected.length &&
+      expected.every((request, index) => {
+        const actual = requests[index] as Partial<Record<keyof Request, unknown>>;
+        return (
+          actual.address === request.address &&
+          actual.amount === request.amount &&
+          Number(actual.request_type) === request.request_type
+        );
+      })
+    );
+  };
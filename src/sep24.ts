@@ -0,0 +1,282 @@
+/**
+ * SEP-24 hosted deposit and withdrawal. The anchor's `stellar.toml` points
+ * at its transfer server; after authenticating with SEP-10 (`webAuth.ts`), the
+ * wallet asks for an interactive URL, opens it so the user can complete KYC
+ * and payment details on the anchor's site, and then polls the transaction
+ * until it settles. Withdrawals pause at `pending_user_transfer_start` until
+ * the wallet sends the asset to the anchor's account with the given memo.
+ */
+
+import { Memo } from 'stellar-sdk';
+
+import type { NetworkProfile } from './networks';
+import type { Signer } from './signer';
+import { NetworkError, ValidationError } from './stellarErrors';
+import { fetchStellarToml } from './stellarToml';
+import { forgetAuthToken, getAuthToken } from './webAuth';
+
+export type Sep24Kind = 'deposit' | 'withdraw';
+
+export type Sep24AssetInfo = {
+  enabled: boolean;
+  min_amount?: number;
+  max_amount?: number;
+  fee_fixed?: number;
+  fee_percent?: number;
+};
+
+export type Sep24Info = {
+  deposit: Record<string, Sep24AssetInfo>;
+  withdraw: Record<string, Sep24AssetInfo>;
+};
+
+export type Sep24Status =
+  | 'incomplete'
+  | 'pending_user_transfer_start'
+  | 'pending_user_transfer_complete'
+  | 'pending_external'
+  | 'pending_anchor'
+  | 'pending_stellar'
+  | 'pending_trust'
+  | 'pending_user'
+  | 'completed'
+  | 'refunded'
+  | 'expired'
+  | 'no_market'
+  | 'too_small'
+  | 'too_large'
+  | 'error';
+
+export type Sep24Transaction = {
+  id: string;
+  kind: Sep24Kind;
+  status: Sep24Status;
+  more_info_url?: string;
+  amount_in?: string;
+  amount_out?: string;
+  amount_fee?: string;
+  withdraw_anchor_account?: string;
+  withdraw_memo?: string;
+  withdraw_memo_type?: 'text' | 'id' | 'hash';
+  message?: string;
+};
+
+/** An authenticated session with one anchor. */
+export type AnchorSession = {
+  network: NetworkProfile;
+  account: string;
+  homeDomain: string;
+  transferServer: string;
+  token: string;
+  info: Sep24Info;
+  /** Issuers the anchor publishes for its asset codes. */
+  issuers: Record<string, string>;
+};
+
+export type InteractiveResponse = {
+  id: string;
+  url: string;
+};
+
+const TERMINAL_STATUSES: Sep24Status[] = [
+  'completed',
+  'refunded',
+  'expired',
+  'no_market',
+  'too_small',
+  'too_large',
+  'error'
+];
+
+export const isTerminalStatus = (status: Sep24Status) => TERMINAL_STATUSES.includes(status);
+
+const POLL_INTERVAL_MS = 5_000;
+
+const readJson = async <T>(response: Response, action: string): Promise<T> => {
+  const body = await response.text();
+  if (!response.ok) {
+    let message = `${action} failed (HTTP ${response.status}).`;
+    try {
+      const parsed = JSON.parse(body) as { error?: string };
+      if (parsed.error) {
+        message = `${action} failed: ${parsed.error}`;
+      }
+    } catch {
+      /* not JSON; keep the status message */
+    }
+    throw new NetworkError(message, response.status, body);
+  }
+  return JSON.parse(body) as T;
+};
+
+/** Resolves the anchor from its home domain, authenticates and loads `/info`. */
+export const connectAnchor = async (
+  network: NetworkProfile,
+  signer: Signer,
+  homeDomain: string
+): Promise<AnchorSession> => {
+  const toml = await fetchStellarToml(network, homeDomain);
+  const transferServer = toml.TRANSFER_SERVER_SEP0024;
+  if (!transferServer) {
+    throw new ValidationError(`${homeDomain} does not offer SEP-24 deposits and withdrawals.`);
+  }
+  if (toml.NETWORK_PASSPHRASE && toml.NETWORK_PASSPHRASE !== network.passphrase) {
+    throw new ValidationError(`${homeDomain} serves a different network than ${network.name}.`);
+  }
+
+  const token = await getAuthToken(network, signer, homeDomain);
+  const info = await readJson<Sep24Info>(
+    await fetch(`${transferServer}/info`),
+    'Loading anchor info'
+  );
+
+  const issuers: Record<string, string> = {};
+  Object.keys({ ...info.deposit, ...info.withdraw }).forEach((code) => {
+    const issuer = toml.CURRENCIES?.find((currency) => currency.code === code)?.issuer;
+    if (issuer) {
+      issuers[code] = issuer;
+    }
+  });
+
+  return {
+    network,
+    account: signer.publicKey,
+    homeDomain,
+    transferServer,
+    token,
+    info,
+    issuers
+  };
+};
+
+/**
+ * Request with the session's JWT. A 401/403 means the token was revoked or
+ * expired early, so it is dropped and the next `connectAnchor` logs in again.
+ */
+const authorizedJson = async <T>(
+  session: AnchorSession,
+  url: string,
+  init: RequestInit,
+  action: string
+): Promise<T> => {
+  try {
+    return await readJson<T>(
+      await fetch(url, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${session.token}` }
+      }),
+      action
+    );
+  } catch (err) {
+    if (err instanceof NetworkError && (err.status === 401 || err.status === 403)) {
+      forgetAuthToken(session.network, session.homeDomain, session.account);
+    }
+    throw err;
+  }
+};
+
+/** Starts an interactive flow; open the returned URL in a popup. */
+export const startInteractiveTransfer = async (
+  session: AnchorSession,
+  kind: Sep24Kind,
+  assetCode: string,
+  amount?: string
+): Promise<InteractiveResponse> => {
+  const body: Record<string, string> = {
+    asset_code: assetCode,
+    account: session.account,
+    lang: 'es'
+  };
+  const issuer = session.issuers[assetCode];
+  if (issuer) {
+    body.asset_issuer = issuer;
+  }
+  if (amount) {
+    body.amount = amount;
+  }
+
+  return authorizedJson<InteractiveResponse>(
+    session,
+    `${session.transferServer}/transactions/${kind}/interactive`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    },
+    `Starting the ${kind}`
+  );
+};
+
+export const fetchTransferStatus = async (
+  session: AnchorSession,
+  id: string
+): Promise<Sep24Transaction> => {
+  const { transaction } = await authorizedJson<{ transaction: Sep24Transaction }>(
+    session,
+    `${session.transferServer}/transaction?id=${encodeURIComponent(id)}`,
+    {},
+    'Checking the transfer status'
+  );
+  return transaction;
+};
+
+/**
+ * Polls a transfer until it reaches a terminal status, reporting every
+ * change. Returns a function that stops polling.
+ */
+export const watchTransfer = (
+  session: AnchorSession,
+  id: string,
+  onUpdate: (transaction: Sep24Transaction) => void,
+  onError: (error: unknown) => void
+): (() => void) => {
+  let stopped = false;
+  let timer: number | undefined;
+  let lastStatus: Sep24Status | undefined;
+
+  const poll = async () => {
+    try {
+      const transaction = await fetchTransferStatus(session, id);
+      if (stopped) {
+        return;
+      }
+      if (transaction.status !== lastStatus) {
+        lastStatus = transaction.status;
+        onUpdate(transaction);
+      }
+      if (isTerminalStatus(transaction.status)) {
+        return;
+      }
+    } catch (err) {
+      if (stopped) {
+        return;
+      }
+      onError(err);
+    }
+    timer = window.setTimeout(() => void poll(), POLL_INTERVAL_MS);
+  };
+
+  void poll();
+  return () => {
+    stopped = true;
+    window.clearTimeout(timer);
+  };
+};
+
+/** The memo the anchor expects on a withdrawal payment; SEP-24 hash memos are base64. */
+export const withdrawalMemo = (transaction: Sep24Transaction): Memo | undefined => {
+  const { withdraw_memo: memo, withdraw_memo_type: type } = transaction;
+  if (!memo) {
+    return undefined;
+  }
+  switch (type) {
+    case 'id':
+      return Memo.id(memo);
+    case 'hash':
+      return Memo.hash(
+        Array.from(atob(memo), (char) => char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+      );
+    default:
+      return Memo.text(memo);
+  }
+};
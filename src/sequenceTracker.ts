@@ -0,0 +1,51 @@
+/**
+ * Local sequence-number tracking. Builders take their source account from
+ * here instead of calling `loadAccount` every time, so back-to-back queued
+ * transactions get consecutive sequence numbers without a Horizon round trip.
+ * A sequence is only committed once a transaction is known to have been
+ * applied; anything uncertain drops it so the next build reloads from
+ * Horizon.
+ */
+
+import { Account, FeeBumpTransaction, Transaction } from 'stellar-sdk';
+
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+
+/** Last sequence number consumed on-ledger, per network and account. */
+const trackedSequences = new Map<string, string>();
+
+const trackingKey = (network: NetworkProfile, publicKey: string) => `${network.id}:${publicKey}`;
+
+/** Source account for the next transaction, loading it from Horizon if untracked. */
+export const loadSourceAccount = async (
+  network: NetworkProfile,
+  publicKey: string
+): Promise<Account> => {
+  const key = trackingKey(network, publicKey);
+  let sequence = trackedSequences.get(key);
+  if (sequence === undefined) {
+    const account = await createHorizonServer(network).loadAccount(publicKey);
+    sequence = account.sequenceNumber();
+    trackedSequences.set(key, sequence);
+  }
+  return new Account(publicKey, sequence);
+};
+
+/** Records the sequence consumed by a transaction that was applied on-ledger. */
+export const recordAppliedTransaction = (
+  network: NetworkProfile,
+  transaction: Transaction | FeeBumpTransaction
+): void => {
+  const applied =
+    transaction instanceof FeeBumpTransaction ? transaction.innerTransaction : transaction;
+  trackedSequences.set(trackingKey(network, applied.source), applied.sequence);
+};
+
+/** Drops the tracked sequence so the next build reloads it from Horizon. */
+export const forgetSequence = (network: NetworkProfile, publicKey: string): void => {
+  trackedSequences.delete(trackingKey(network, publicKey));
+};
+
+export const sourceOf = (transaction: Transaction | FeeBumpTransaction): string =>
+  transaction instanceof FeeBumpTransaction ? transaction.innerTransaction.source : transaction.source;
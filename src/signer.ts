@@ -0,0 +1,111 @@
+/**
+ * Signer abstraction shared by every transaction helper. Helpers only need
+ * the account's public key and a way to turn an unsigned envelope into a
+ * signed one, so the same flows work whether the key lives in memory, in the
+ * encrypted browser keystore, or on an external device.
+ */
+
+import { Buffer } from 'buffer';
+import { Keypair, TransactionBuilder } from 'stellar-sdk';
+
+import { unlockKeystore } from './keystore';
+import { ValidationError } from './stellarErrors';
+
+export type Signer = {
+  publicKey: string;
+  /**
+   * Signs a base64 transaction envelope for the given network and returns the
+   * signed envelope, also as base64 XDR.
+   */
+  signTransaction: (transactionXdr: string, networkPassphrase: string) => Promise<string>;
+};
+
+const signWithKeypair = (keypair: Keypair, transactionXdr: string, networkPassphrase: string) => {
+  const transaction = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+  transaction.sign(keypair);
+  return transaction.toXDR();
+};
+
+/** Signs with a keypair that is already held in memory. */
+export const createKeypairSigner = (keypair: Keypair): Signer => ({
+  publicKey: keypair.publicKey(),
+  signTransaction: async (transactionXdr, networkPassphrase) =>
+    signWithKeypair(keypair, transactionXdr, networkPassphrase)
+});
+
+/**
+ * Signs for `accountId` with a secondary key that the account lists as one of
+ * its signers. Transactions keep the account as their source, so they act on
+ * the account exactly as if its own key had signed. The private key is a
+ * non-extractable WebCrypto key, so signing goes through `crypto.subtle`.
+ */
+export const createDelegatedSigner = (
+  accountId: string,
+  delegatePublicKey: string,
+  privateKey: CryptoKey
+): Signer => ({
+  publicKey: accountId,
+  signTransaction: async (transactionXdr, networkPassphrase) => {
+    const transaction = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+    const signature = await crypto.subtle.sign(
+      'Ed25519',
+      privateKey,
+      new Uint8Array(transaction.hash())
+    );
+    // Verifies the signature against the delegate's public key before adding it.
+    transaction.addSignature(delegatePublicKey, Buffer.from(signature).toString('base64'));
+    return transaction.toXDR();
+  }
+});
+
+/**
+ * Signs with the key stored in the encrypted browser keystore. The seed is
+ * decrypted for each signature and dropped straight after, so nothing
+ * sensitive stays in memory between transactions.
+ */
+export const createKeystoreSigner = (
+  userId: string,
+  publicKey: string,
+  requestPassphrase: () => Promise<string>
+): Signer => ({
+  publicKey,
+  signTransaction: async (transactionXdr, networkPassphrase) => {
+    const keypair = await unlockKeystore(userId, await requestPassphrase());
+    if (keypair.publicKey() !== publicKey) {
+      throw new Error('Stored wallet does not match the expected signing account.');
+    }
+    return signWithKeypair(keypair, transactionXdr, networkPassphrase);
+  }
+});
+
+export type ExternalSignFn = (transactionXdr: string, networkPassphrase: string) => Promise<string>;
+
+/**
+ * Signs through something outside the app: a hardware wallet, a browser
+ * extension, or another wallet the user pastes the signed envelope back
+ * from. Without `sign` every signature request is rejected. The returned
+ * envelope must be the same transaction, signed.
+ */
+export const createExternalSigner = (publicKey: string, sign?: ExternalSignFn): Signer => ({
+  publicKey,
+  signTransaction: async (transactionXdr, networkPassphrase) => {
+    if (!sign) {
+      throw new Error('External signer is not connected. Connect your device and retry.');
+    }
+    const signedXdr = await sign(transactionXdr, networkPassphrase);
+    let signed;
+    try {
+      signed = TransactionBuilder.fromXDR(signedXdr.trim(), networkPassphrase);
+    } catch {
+      throw new ValidationError('The signed transaction could not be read. Paste the full XDR.');
+    }
+    const original = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+    if (!signed.hash().equals(original.hash())) {
+      throw new ValidationError('The signed transaction is not the one that was prepared.');
+    }
+    if (signed.signatures.length === 0) {
+      throw new ValidationError('The transaction has not been signed yet.');
+    }
+    return signed.toXDR();
+  }
+});
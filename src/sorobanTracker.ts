@@ -0,0 +1,172 @@
+/**
+ * Follows a Soroban transaction from `sendTransaction` to its final on-ledger
+ * status. `sendTransaction` only says whether the RPC accepted the envelope
+ * (PENDING) — the contract call can still fail once it is applied, so callers
+ * must poll `getTransaction` before reporting success.
+ */
+
+import { SorobanRpc, humanizeEvents, scValToNative, xdr } from 'stellar-sdk';
+
+import { NetworkError, contractErrorCodeFromEvents, fromSorobanSendError } from './stellarErrors';
+
+export type SorobanOutcome = {
+  status: 'SUCCESS' | 'FAILED' | 'TIMEOUT';
+  hash: string;
+  /** Ledger the transaction was applied in (absent on timeout). */
+  ledger?: number;
+  /** Contract return value decoded to native JS values. */
+  returnValue?: unknown;
+  /** Transaction result code, e.g. `txFailed`. */
+  resultCode?: string;
+  /** Human-readable diagnostic events explaining a failure. */
+  diagnostics: string[];
+  /** `Error(Contract, #code)` raised by the contract, when it failed with one. */
+  contractErrorCode?: number;
+  /** Signed envelope of a timed-out transaction, kept so it can be fee-bumped. */
+  envelopeXdr?: string;
+  /** When a timed-out transaction was sent, in milliseconds since the epoch. */
+  submittedAt?: number;
+  /** When a timed-out transaction's time bounds close, if it has any. */
+  expiresAt?: number;
+};
+
+/**
+ * EXPIRED: the transaction was never included and no longer can be.
+ * PENDING: it may still be included, or the RPC no longer keeps enough
+ * history to tell.
+ */
+export type TimedOutResolution = 'SUCCESS' | 'FAILED' | 'EXPIRED' | 'PENDING';
+
+export type TrackingOptions = {
+  timeoutMs?: number;
+  intervalMs?: number;
+};
+
+/**
+ * Well inside the validity window of our transactions
+ * (`TRANSACTION_VALIDITY_SECONDS`), so one that times out here can still be
+ * fee-bumped before it expires.
+ */
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 2_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const stringifyEventPart = (value: unknown) =>
+  JSON.stringify(value, (_key, inner) => (typeof inner === 'bigint' ? inner.toString() : inner));
+
+export const describeDiagnosticEvents = (events: xdr.DiagnosticEvent[] | undefined): string[] => {
+  if (!events || events.length === 0) {
+    return [];
+  }
+
+  try {
+    return humanizeEvents(events).map((event) => {
+      const origin = event.contractId ? `${event.contractId.slice(0, 6)}…` : event.type;
+      return `[${origin}] ${stringifyEventPart(event.topics)} → ${stringifyEventPart(event.data)}`;
+    });
+  } catch {
+    return events.map((event) => event.toXDR('base64'));
+  }
+};
+
+const diagnosticEventsFromMeta = (meta: xdr.TransactionMeta): xdr.DiagnosticEvent[] => {
+  try {
+    return meta.switch() === 3 ? meta.v3().sorobanMeta()?.diagnosticEvents() ?? [] : [];
+  } catch {
+    return [];
+  }
+};
+
+const decodeReturnValue = (value: xdr.ScVal | undefined): unknown => {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return scValToNative(value);
+  } catch {
+    return value.toXDR('base64');
+  }
+};
+
+/**
+ * Polls `getTransaction` for the hash returned by `sendTransaction` until the
+ * network reports SUCCESS or FAILED, or `timeoutMs` elapses.
+ *
+ * Throws straight away when the RPC refused the submission (ERROR or
+ * TRY_AGAIN_LATER), since nothing reached the ledger in that case.
+ */
+export const trackSorobanTransaction = async (
+  server: SorobanRpc.Server,
+  sendResponse: SorobanRpc.Api.SendTransactionResponse,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, intervalMs = DEFAULT_INTERVAL_MS }: TrackingOptions = {}
+): Promise<SorobanOutcome> => {
+  const { hash } = sendResponse;
+
+  if (sendResponse.status === 'ERROR') {
+    throw fromSorobanSendError(sendResponse);
+  }
+
+  if (sendResponse.status === 'TRY_AGAIN_LATER') {
+    throw new NetworkError('Soroban RPC is congested and did not accept the transaction. Please retry.');
+  }
+
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await server.getTransaction(hash);
+
+    if (response.status === SorobanRpc.Api.GetTransactionStatus.SUCCESS) {
+      return {
+        status: 'SUCCESS',
+        hash,
+        ledger: response.ledger,
+        returnValue: decodeReturnValue(response.returnValue),
+        resultCode: response.resultXdr.result().switch().name,
+        diagnostics: []
+      };
+    }
+
+    if (response.status === SorobanRpc.Api.GetTransactionStatus.FAILED) {
+      const events = diagnosticEventsFromMeta(response.resultMetaXdr);
+      return {
+        status: 'FAILED',
+        hash,
+        ledger: response.ledger,
+        resultCode: response.resultXdr.result().switch().name,
+        diagnostics: describeDiagnosticEvents(events),
+        contractErrorCode: contractErrorCodeFromEvents(events)
+      };
+    }
+
+    await sleep(intervalMs);
+  }
+
+  return { status: 'TIMEOUT', hash, diagnostics: [] };
+};
+
+/**
+ * Looks up a transaction that timed out earlier. A NOT_FOUND answer only
+ * means EXPIRED once the ledgers the RPC keeps span everything from
+ * `submittedAt` to past `expiresAt`; otherwise it stays PENDING.
+ */
+export const resolveTimedOutTransaction = async (
+  server: SorobanRpc.Server,
+  hash: string,
+  submittedAt: number,
+  expiresAt?: number
+): Promise<TimedOutResolution> => {
+  const response = await server.getTransaction(hash);
+  if (response.status === SorobanRpc.Api.GetTransactionStatus.SUCCESS) {
+    return 'SUCCESS';
+  }
+  if (response.status === SorobanRpc.Api.GetTransactionStatus.FAILED) {
+    return 'FAILED';
+  }
+
+  const oldest = Number(response.oldestLedgerCloseTime) * 1000;
+  const latest = Number(response.latestLedgerCloseTime) * 1000;
+  return expiresAt !== undefined && oldest <= submittedAt && latest > expiresAt
+    ? 'EXPIRED'
+    : 'PENDING';
+};
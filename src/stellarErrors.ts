@@ -0,0 +1,453 @@
+/**
+ * Typed errors for everything that can go wrong talking to Stellar. Raw
+ * failures (Axios/Horizon responses, Soroban simulation and send errors,
+ * contract error codes) are decoded into one of a few error classes with a
+ * message the user can act on; the raw payload is kept in
+ * `technicalDetails` for the "technical details" toggle.
+ */
+
+import { ContractErrorType } from '@blend-capital/blend-sdk';
+import { SorobanRpc, xdr } from 'stellar-sdk';
+
+import type { SorobanOutcome } from './sorobanTracker';
+
+export type StellarErrorKind =
+  | 'network'
+  | 'transaction'
+  | 'simulation'
+  | 'contract'
+  | 'validation'
+  | 'unknown';
+
+export class StellarError extends Error {
+  readonly kind: StellarErrorKind;
+  /** Raw response, result codes or diagnostics, for support and debugging. */
+  readonly technicalDetails?: string;
+
+  constructor(kind: StellarErrorKind, message: string, technicalDetails?: string) {
+    super(message);
+    this.name = 'StellarError';
+    this.kind = kind;
+    this.technicalDetails = technicalDetails;
+  }
+}
+
+/** Horizon or the RPC could not be reached, or answered with an HTTP error. */
+export class NetworkError extends StellarError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, technicalDetails?: string) {
+    super('network', message, technicalDetails);
+    this.name = 'NetworkError';
+    this.status = status;
+  }
+}
+
+/** The network refused a submitted transaction; carries its result codes. */
+export class TransactionFailedError extends StellarError {
+  readonly transactionCode?: string;
+  readonly operationCodes: string[];
+
+  constructor(
+    message: string,
+    transactionCode: string | undefined,
+    operationCodes: string[],
+    technicalDetails?: string
+  ) {
+    super('transaction', message, technicalDetails);
+    this.name = 'TransactionFailedError';
+    this.transactionCode = transactionCode;
+    this.operationCodes = operationCodes;
+  }
+}
+
+/**
+ * A signed transaction did not land because its fee was too low or it timed
+ * out. It can still be fee-bumped from `signedEnvelope` without re-signing.
+ */
+export class StuckTransactionError extends StellarError {
+  readonly reason: 'insufficient_fee' | 'timeout';
+  readonly signedEnvelope: string;
+
+  constructor(
+    reason: 'insufficient_fee' | 'timeout',
+    signedEnvelope: string,
+    technicalDetails?: string
+  ) {
+    super(
+      'transaction',
+      reason === 'insufficient_fee'
+        ? 'The network is busy and the fee was too low. You can resubmit with a higher fee without signing the transaction again.'
+        : 'The transaction has not been confirmed yet. You can resubmit it with a higher fee without signing it again.',
+      technicalDetails
+    );
+    this.name = 'StuckTransactionError';
+    this.reason = reason;
+    this.signedEnvelope = signedEnvelope;
+  }
+}
+
+/**
+ * Converts a submission failure into a `StuckTransactionError` when a fee
+ * bump could still get `signedEnvelope` through; otherwise returns it as is.
+ */
+export const asStuckTransaction = (error: StellarError, signedEnvelope: string): StellarError => {
+  if (error instanceof TransactionFailedError && error.transactionCode === 'tx_insufficient_fee') {
+    return new StuckTransactionError('insufficient_fee', signedEnvelope, error.technicalDetails);
+  }
+  if (error instanceof NetworkError && error.status === 504) {
+    return new StuckTransactionError('timeout', signedEnvelope, error.technicalDetails);
+  }
+  return error;
+};
+
+/** Soroban simulation failed before anything was signed or submitted. */
+export class SimulationError extends StellarError {
+  constructor(message: string, technicalDetails?: string) {
+    super('simulation', message, technicalDetails);
+    this.name = 'SimulationError';
+  }
+}
+
+/** A contract returned `Error(Contract, #code)`, e.g. a Blend pool error. */
+export class ContractError extends StellarError {
+  readonly code: number;
+
+  constructor(code: number, technicalDetails?: string) {
+    super('contract', describeContractError(code), technicalDetails);
+    this.name = 'ContractError';
+    this.code = code;
+  }
+}
+
+/** User input failed a local check; nothing was sent to the network. */
+export class ValidationError extends StellarError {
+  constructor(message: string) {
+    super('validation', message);
+    this.name = 'ValidationError';
+  }
+}
+
+const TRANSACTION_MESSAGES: Record<string, string> = {
+  tx_bad_seq:
+    'The account sequence number changed before this transaction landed. Retry to rebuild it with a fresh sequence number.',
+  tx_bad_auth: 'The transaction is missing a valid signature for this account.',
+  tx_bad_auth_extra: 'The transaction carries signatures that are not needed. Rebuild and sign it again.',
+  tx_insufficient_balance:
+    'Not enough XLM to pay the fee while keeping the minimum account reserve.',
+  tx_insufficient_fee: 'The network is busy and the fee was too low. Retry with a higher fee.',
+  tx_no_source_account: 'The source account does not exist yet. Fund it with XLM first.',
+  tx_too_early: 'The transaction is not valid yet. Check the device clock and retry.',
+  tx_too_late: 'The transaction expired before it reached the network. Please retry.',
+  tx_missing_operation: 'The transaction has no operations.',
+  tx_internal_error: 'Stellar Core hit an internal error. Please retry.',
+  tx_soroban_invalid: 'The Soroban resources in this transaction are invalid. Simulate and retry.',
+  tx_malformed: 'The transaction is malformed.'
+};
+
+const OPERATION_MESSAGES: Record<string, string> = {
+  op_underfunded: 'Not enough balance to send this amount.',
+  op_low_reserve:
+    'This would take the account below its minimum XLM reserve. Keep more XLM or remove unused trustlines.',
+  op_no_trust: 'The destination account has no trustline for this asset.',
+  op_src_no_trust: 'Your account has no trustline for this asset. Add one first.',
+  op_no_destination: 'The destination account does not exist. Send at least 1 XLM to create it.',
+  op_line_full: 'The destination trustline limit would be exceeded.',
+  op_not_authorized: 'The destination is not authorised by the issuer to hold this asset.',
+  op_src_not_authorized: 'Your account is not authorised by the issuer to hold this asset.',
+  op_no_issuer: 'The asset issuer account does not exist.',
+  op_invalid_limit: 'The trustline limit is lower than the current balance or liabilities.',
+  op_too_few_paths: 'No conversion path is available for this payment.',
+  op_over_source_max: 'The conversion would cost more than the maximum you allowed.',
+  op_under_dest_min: 'The conversion would deliver less than the minimum you allowed.',
+  op_already_exists: 'The destination account already exists. Send a regular payment instead.',
+  op_malformed: 'One of the operations is malformed. Check the addresses and amounts.',
+  op_bad_auth: 'An operation is missing a required signature.'
+};
+
+const CONTRACT_MESSAGES: Partial<Record<ContractErrorType, string>> = {
+  [ContractErrorType.BalanceError]: 'Your token balance is too low for this action.',
+  [ContractErrorType.TrustlineMissingError]:
+    'Your account has no trustline for this token. Add one first.',
+  [ContractErrorType.NegativeAmountError]: 'Amounts must be positive.',
+  [ContractErrorType.PoolBadRequest]:
+    'The pool rejected the request. Check the reserves and amounts.',
+  [ContractErrorType.StatusNotAllowed]: 'The pool is not accepting this action in its current status.',
+  [ContractErrorType.InvalidHf]:
+    'This would leave your position below the minimum health factor. Repay debt or add collateral first.',
+  [ContractErrorType.InvalidPoolStatus]:
+    'The pool is frozen or on ice and is not accepting this action right now.',
+  [ContractErrorType.InvalidUtilRate]:
+    'The reserve is too highly utilised to borrow or withdraw that amount right now.',
+  [ContractErrorType.MaxPositionsExceeded]:
+    'You have reached the maximum number of positions allowed in this pool.',
+  [ContractErrorType.StalePrice]: 'The pool oracle price is stale. Try again in a few minutes.',
+  [ContractErrorType.ExceededSupplyCap]: 'The reserve supply cap has been reached.',
+  [ContractErrorType.ReserveDisabled]: 'This reserve is disabled in the pool.',
+  [ContractErrorType.MinCollateralNotMet]:
+    'Your collateral is below the minimum the pool requires to borrow.'
+};
+
+export const describeContractError = (code: number): string => {
+  const message = CONTRACT_MESSAGES[code as ContractErrorType];
+  if (message) {
+    return message;
+  }
+  const name = ContractErrorType[code as ContractErrorType];
+  return `The contract rejected the call with error #${code}${name ? ` (${name})` : ''}.`;
+};
+
+/** Turns Horizon `result_codes` into a single actionable message. */
+export const describeResultCodes = (transactionCode?: string, operationCodes: string[] = []) => {
+  const failedOperation = operationCodes.find((code) => code !== 'op_success');
+  if (failedOperation) {
+    return (
+      OPERATION_MESSAGES[failedOperation] ?? `An operation failed with ${failedOperation}.`
+    );
+  }
+  if (transactionCode) {
+    return TRANSACTION_MESSAGES[transactionCode] ?? `The transaction failed with ${transactionCode}.`;
+  }
+  return 'The network rejected the transaction.';
+};
+
+const CONTRACT_ERROR_PATTERN = /Error\(Contract, #(\d+)\)/;
+
+export const contractErrorCodeFromText = (text: string): number | undefined => {
+  const match = CONTRACT_ERROR_PATTERN.exec(text);
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Finds the first `Error(Contract, #code)` among diagnostic event topics and data. */
+export const contractErrorCodeFromEvents = (
+  events: xdr.DiagnosticEvent[] | undefined
+): number | undefined => {
+  for (const event of events ?? []) {
+    try {
+      const body = event.event().body().v0();
+      for (const value of [...body.topics(), body.data()]) {
+        if (
+          value.switch() === xdr.ScValType.scvError() &&
+          value.error().switch() === xdr.ScErrorType.sceContract()
+        ) {
+          return value.error().contractCode();
+        }
+      }
+    } catch {
+      /* ignore undecodable events */
+    }
+  }
+  return undefined;
+};
+
+/** Names the codes inside a base64 `TransactionResult`, for technical details. */
+const decodeResultXdr = (resultXdr: string): string | null => {
+  try {
+    const result = xdr.TransactionResult.fromXDR(resultXdr, 'base64').result();
+    const operations =
+      result.switch() === xdr.TransactionResultCode.txFailed()
+        ? result.results().map((entry) =>
+            entry.switch() === xdr.OperationResultCode.opInner()
+              ? (entry.tr().value() as { switch: () => { name: string } }).switch().name
+              : entry.switch().name
+          )
+        : [];
+    return [result.switch().name, ...operations].join(', ');
+  } catch {
+    return null;
+  }
+};
+
+const stringify = (value: unknown) =>
+  JSON.stringify(value, (_key, inner) => (typeof inner === 'bigint' ? inner.toString() : inner), 2);
+
+type ProblemResponse = {
+  status?: number;
+  title?: string;
+  detail?: string;
+  extras?: {
+    result_codes?: {
+      transaction?: string;
+      operations?: string[];
+      inner_transaction?: string;
+    };
+    result_xdr?: string;
+  };
+};
+
+type HttpFailure = {
+  status?: number;
+  statusText?: string;
+  data?: ProblemResponse;
+};
+
+/**
+ * Pulls the HTTP status and Horizon problem document out of an error. Axios
+ * errors carry them on `response`; the SDK's own `NetworkError` subclasses
+ * sometimes store the problem document itself on `response`.
+ */
+const httpFailureOf = (error: unknown): HttpFailure | null => {
+  if (typeof error !== 'object' || error === null || !('response' in error)) {
+    return null;
+  }
+  const response = (error as { response?: unknown }).response;
+  if (typeof response !== 'object' || response === null) {
+    return null;
+  }
+  const candidate = response as HttpFailure & ProblemResponse;
+  if (candidate.data && typeof candidate.data === 'object') {
+    return candidate;
+  }
+  if (candidate.extras || candidate.title) {
+    return { status: candidate.status, data: candidate };
+  }
+  return { status: candidate.status, statusText: candidate.statusText };
+};
+
+const isAxiosError = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  'isAxiosError' in error &&
+  Boolean((error as { isAxiosError?: boolean }).isAxiosError);
+
+const fromHttpFailure = (failure: HttpFailure, fallbackMessage: string): StellarError => {
+  const { status, data } = failure;
+  const resultCodes = data?.extras?.result_codes;
+
+  if (resultCodes) {
+    const transactionCode =
+      resultCodes.transaction === 'tx_fee_bump_inner_failed'
+        ? resultCodes.inner_transaction ?? resultCodes.transaction
+        : resultCodes.transaction;
+    const operationCodes = resultCodes.operations ?? [];
+    const decodedXdr = data?.extras?.result_xdr ? decodeResultXdr(data.extras.result_xdr) : null;
+
+    return new TransactionFailedError(
+      describeResultCodes(transactionCode, operationCodes),
+      transactionCode,
+      operationCodes,
+      [decodedXdr ? `Result XDR: ${decodedXdr}` : null, stringify(data)].filter(Boolean).join('\n')
+    );
+  }
+
+  const details = data ? stringify(data) : failure.statusText;
+  if (status === 404) {
+    return new NetworkError(
+      'The account or resource was not found. New accounts must be funded with XLM before use.',
+      status,
+      details
+    );
+  }
+  if (status === 429) {
+    return new NetworkError('Too many requests. Wait a moment and try again.', status, details);
+  }
+  if (status && status >= 500) {
+    return new NetworkError('The Stellar server had a problem. Please retry shortly.', status, details);
+  }
+  if (data?.detail || data?.title) {
+    return new NetworkError(data.detail ?? data.title ?? fallbackMessage, status, details);
+  }
+  return new NetworkError(fallbackMessage, status, details);
+};
+
+/** Wraps a Soroban simulation failure, surfacing the contract error if any. */
+export const fromSimulationError = (
+  simulation: SorobanRpc.Api.SimulateTransactionErrorResponse
+): StellarError => {
+  const details = simulation.error;
+  const code =
+    contractErrorCodeFromText(simulation.error) ?? contractErrorCodeFromEvents(simulation.events);
+  if (code !== undefined) {
+    return new ContractError(code, details);
+  }
+  return new SimulationError(
+    'The transaction would fail on-chain, so it was not sent. Check the amounts and try again.',
+    details
+  );
+};
+
+/** Wraps a `sendTransaction` response the RPC refused (status ERROR). */
+export const fromSorobanSendError = (
+  response: SorobanRpc.Api.SendTransactionResponse
+): StellarError => {
+  const details = [
+    `Transaction ${response.hash}`,
+    response.errorResult?.toXDR('base64'),
+    ...(response.diagnosticEvents ?? []).map((event) => event.toXDR('base64'))
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const code = contractErrorCodeFromEvents(response.diagnosticEvents);
+  if (code !== undefined) {
+    return new ContractError(code, details);
+  }
+
+  // XDR names such as `txBadSeq` map onto Horizon's `tx_bad_seq` codes.
+  const resultName = response.errorResult?.result().switch().name;
+  const transactionCode = resultName?.replace(/([A-Z])/g, '_$1').toLowerCase();
+  return new TransactionFailedError(
+    describeResultCodes(transactionCode),
+    transactionCode,
+    [],
+    details
+  );
+};
+
+/** Error for a Soroban transaction that was applied but failed on-ledger. */
+export const fromSorobanOutcome = (label: string, outcome: SorobanOutcome): StellarError => {
+  const details = [
+    `${label} failed in ledger ${outcome.ledger} (tx ${outcome.hash}, ${outcome.resultCode ?? 'unknown result'}).`,
+    ...outcome.diagnostics
+  ].join('\n');
+
+  const code =
+    outcome.contractErrorCode ?? contractErrorCodeFromText(outcome.diagnostics.join('\n'));
+  if (code !== undefined) {
+    return new ContractError(code, details);
+  }
+  return new TransactionFailedError(
+    `${label} failed on-ledger. Nothing changed in your positions.`,
+    outcome.resultCode,
+    [],
+    details
+  );
+};
+
+/** Normalises anything thrown by the SDKs or our helpers into a `StellarError`. */
+export const toStellarError = (error: unknown, fallbackMessage: string): StellarError => {
+  if (error instanceof StellarError) {
+    return error;
+  }
+
+  const failure = httpFailureOf(error);
+  if (failure) {
+    return fromHttpFailure(failure, fallbackMessage);
+  }
+
+  if (isAxiosError(error)) {
+    return new NetworkError(
+      'Could not reach the Stellar network. Check your connection and try again.',
+      undefined,
+      (error as { message?: string }).message
+    );
+  }
+
+  if (error instanceof Error && error.message) {
+    const code = contractErrorCodeFromText(error.message);
+    return code !== undefined
+      ? new ContractError(code, error.message)
+      : new StellarError('unknown', error.message);
+  }
+
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof (error as { message?: unknown }).message === 'string'
+  ) {
+    return new StellarError('unknown', String((error as { message?: unknown }).message));
+  }
+
+  return new StellarError('unknown', fallbackMessage, error === undefined ? undefined : stringify(error));
+};
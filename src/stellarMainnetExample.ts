@@ -1,25 +1,24 @@
 /**
- * Example helper demonstrating how to use `stellar-sdk` to craft, sign, and
- * submit a transaction on Stellar mainnet. This file is illustrative and is
- * not imported anywhere else in the app.
+ * Helpers demonstrating how to use `stellar-sdk` to craft, sign, and submit
+ * transactions. Every helper takes a `NetworkProfile` so the same flows run
+ * against mainnet, testnet, futurenet or a local quickstart node.
  *
  * Steps:
- * 1. Create a Server instance pointed at the public Horizon endpoint.
+ * 1. Create a Server instance pointed at the profile's Horizon endpoint.
  * 2. Load the source account sequence number from Horizon.
  * 3. Build the transaction with the desired operations.
- * 4. Sign the transaction locally with the source account secret key.
+ * 4. Sign the transaction through the supplied `Signer`.
  * 5. Submit the signed XDR back to Horizon.
  *
- * IMPORTANT: Never hardcode production secret keys inside your source tree.
- * Inject them securely via environment variables or a secret manager.
+ * Helpers never touch secret keys directly; where the key lives is up to the
+ * `Signer` implementation (see `signer.ts`).
  */
 
 import {
-  BASE_FEE,
-  Horizon,
-  Keypair,
-  Networks,
+  FeeBumpTransaction,
   Asset,
+  Claimant,
+  Memo,
   Operation,
   StrKey,
   TransactionBuilder,
@@ -28,52 +27,384 @@ import {
 } from 'stellar-sdk';
 
 import {
-  PoolContract,
-  RequestType,
+  PoolContractV2,
+  Request,
   PoolV2,
-  Positions,
   PositionsEstimate
 } from '@blend-capital/blend-sdk';
 
-const HORIZON_MAINNET_URL = 'https://horizon.stellar.org';
-const SOROBAN_RPC_URL = 'https://mainnet.sorobanrpc.com';
+import { decimalToUnits, formatUnits } from './amounts';
+import { assertAssetNotMismatched } from './assetVerification';
+import { createHorizonServer } from './horizon';
+import type { NetworkProfile } from './networks';
+import type { Signer } from './signer';
+import {
+  SorobanOutcome,
+  TimedOutResolution,
+  resolveTimedOutTransaction,
+  trackSorobanTransaction
+} from './sorobanTracker';
+import {
+  ValidationError,
+  asStuckTransaction,
+  fromSimulationError,
+  toStellarError
+} from './stellarErrors';
+import {
+  forgetSequence,
+  loadSourceAccount,
+  recordAppliedTransaction,
+  sourceOf
+} from './sequenceTracker';
+import {
+  DEFAULT_FEE_LEVEL,
+  FeeLevel,
+  buildFeeBumpTransaction,
+  resolveBaseFee
+} from './feeStrategy';
+import { PathQuote, assetCodeOf, slippageBound } from './pathPayments';
+import { assertPaymentDestination, baseAccountOf } from './memos';
+import { assertLimitAllowed, assertTrustlineRemovable } from './trustlines';
+import {
+  ClaimTerms,
+  ClaimableBalance,
+  balanceAsset,
+  buildClaimants
+} from './claimableBalances';
+
+export const createSorobanServer = (network: NetworkProfile) =>
+  new SorobanRpc.Server(network.sorobanRpcUrl, { allowHttp: network.allowHttp });
+
+type BuiltTransaction = ReturnType<TransactionBuilder['build']>;
+
+/**
+ * A built, unsigned transaction waiting for the user's approval. Soroban
+ * transactions have already been simulated and assembled, and carry the
+ * resource fee reported by the simulation.
+ */
+export type PreparedTransaction = {
+  kind: 'classic' | 'soroban';
+  transaction: BuiltTransaction;
+  resourceFee?: string;
+};
+
+/**
+ * Validity window of every transaction we build. Time bounds are fixed at
+ * build time, before the review dialog opens, so the window has to cover the
+ * review as well as submission and confirmation tracking.
+ */
+export const TRANSACTION_VALIDITY_SECONDS = 300;
+
+/**
+ * Approvals with less validity left than this are refused rather than
+ * signed, and stuck transactions this close to expiry are not offered a
+ * fee bump.
+ */
+const MIN_SIGNING_WINDOW_SECONDS = 30;
+
+/** When the (inner) transaction's time bounds close, in milliseconds; `undefined` when unbounded. */
+const expiryOf = (transaction: BuiltTransaction | FeeBumpTransaction): number | undefined => {
+  const inner = transaction instanceof FeeBumpTransaction ? transaction.innerTransaction : transaction;
+  const maxTime = Number(inner.timeBounds?.maxTime ?? 0);
+  return maxTime > 0 ? maxTime * 1000 : undefined;
+};
+
+const canStillLand = (transaction: BuiltTransaction | FeeBumpTransaction) => {
+  const expiresAt = expiryOf(transaction);
+  return expiresAt === undefined || expiresAt - Date.now() >= MIN_SIGNING_WINDOW_SECONDS * 1000;
+};
+
+/** Presents a prepared transaction to the user; resolves `true` to approve. */
+export type ReviewTransaction = (prepared: PreparedTransaction) => Promise<boolean>;
+
+export class TransactionRejectedError extends Error {
+  constructor() {
+    super('Transaction was rejected during review.');
+    this.name = 'TransactionRejectedError';
+  }
+}
+
+const signWithSigner = async (
+  signer: Signer,
+  transaction: BuiltTransaction,
+  network: NetworkProfile
+): Promise<BuiltTransaction> => {
+  const signedXdr = await signer.signTransaction(transaction.toXDR(), network.passphrase);
+  return TransactionBuilder.fromXDR(signedXdr, network.passphrase) as BuiltTransaction;
+};
 
 /**
- * Builds, signs, and submits a simple payment from the supplied source account
- * to the destination account.
+ * Review and sign phases: waits for the user's approval and only then hands
+ * the envelope to the signer.
+ */
+export const reviewAndSign = async (
+  network: NetworkProfile,
+  signer: Signer,
+  prepared: PreparedTransaction,
+  review: ReviewTransaction
+): Promise<BuiltTransaction> => {
+  const approved = await review(prepared);
+  if (!approved) {
+    throw new TransactionRejectedError();
+  }
+  if (!canStillLand(prepared.transaction)) {
+    throw new ValidationError(
+      'The transaction expired while waiting for approval. Nothing was signed; submit it again.'
+    );
+  }
+  return signWithSigner(signer, prepared.transaction, network);
+};
+
+const buildClassicTransaction = async (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  operations: xdr.Operation | xdr.Operation[],
+  feeLevel: FeeLevel,
+  memo?: Memo
+): Promise<PreparedTransaction> => {
+  const sourceAccount = await loadSourceAccount(network, sourcePublicKey);
+
+  const builder = new TransactionBuilder(sourceAccount, {
+    fee: await resolveBaseFee(network, feeLevel),
+    networkPassphrase: network.passphrase
+  }).setTimeout(TRANSACTION_VALIDITY_SECONDS);
+  (Array.isArray(operations) ? operations : [operations]).forEach((operation) =>
+    builder.addOperation(operation)
+  );
+  if (memo) {
+    builder.addMemo(memo);
+  }
+  const transaction = builder.build();
+
+  return { kind: 'classic', transaction };
+};
+
+/** Builds an unsigned native (XLM) payment. */
+export const buildPaymentTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  destinationPublicKey: string,
+  amount: string,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<PreparedTransaction> => {
+  assertPaymentDestination(destinationPublicKey);
+
+  return buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.payment({
+      destination: destinationPublicKey,
+      asset: Asset.native(),
+      amount
+    }),
+    feeLevel,
+    memo
+  );
+};
+
+/** Builds an unsigned payment for a credit asset. */
+export const buildAssetPaymentTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  destinationPublicKey: string,
+  assetCode: string,
+  assetIssuerPublicKey: string,
+  amount: string,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<PreparedTransaction> => {
+  assertPaymentDestination(destinationPublicKey);
+
+  return buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.payment({
+      destination: destinationPublicKey,
+      asset: new Asset(assetCode, assetIssuerPublicKey),
+      amount
+    }),
+    feeLevel,
+    memo
+  );
+};
+
+/**
+ * Builds an unsigned path payment from a Horizon quote. Strict-send debits
+ * exactly `quote.sendAmount` and requires at least the slippage-adjusted
+ * destination amount; strict-receive delivers exactly `quote.destAmount` and
+ * spends at most the slippage-adjusted send amount.
+ */
+export const buildPathPaymentTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  destinationPublicKey: string,
+  quote: PathQuote,
+  slippageBps: number,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<PreparedTransaction> => {
+  assertPaymentDestination(destinationPublicKey);
+
+  const bound = slippageBound(quote, slippageBps);
+  const operation =
+    quote.mode === 'strict-send'
+      ? Operation.pathPaymentStrictSend({
+          sendAsset: quote.sendAsset,
+          sendAmount: quote.sendAmount,
+          destination: destinationPublicKey,
+          destAsset: quote.destAsset,
+          destMin: bound,
+          path: quote.path
+        })
+      : Operation.pathPaymentStrictReceive({
+          sendAsset: quote.sendAsset,
+          sendMax: bound,
+          destination: destinationPublicKey,
+          destAsset: quote.destAsset,
+          destAmount: quote.destAmount,
+          path: quote.path
+        });
+
+  return buildClassicTransaction(network, sourcePublicKey, operation, feeLevel, memo);
+};
+
+/** Builds an unsigned `changeTrust` operation creating or updating a trustline. */
+export const buildTrustlineTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  assetCode: string,
+  assetIssuerPublicKey: string,
+  limit?: string,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<PreparedTransaction> => {
+  if (!StrKey.isValidEd25519PublicKey(assetIssuerPublicKey)) {
+    throw new ValidationError('Asset issuer must be a valid Stellar public key (G...).');
+  }
+
+  return buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.changeTrust({
+      asset: new Asset(assetCode, assetIssuerPublicKey),
+      limit
+    }),
+    feeLevel
+  );
+};
+
+/** Builds an unsigned `createAccount` funding a new account from `sourcePublicKey`. */
+export const buildCreateAccountTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  destinationPublicKey: string,
+  startingBalance: string,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<PreparedTransaction> =>
+  buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.createAccount({ destination: destinationPublicKey, startingBalance }),
+    feeLevel
+  );
+
+/** Builds an unsigned `createClaimableBalance` for `claimants`. */
+export const buildClaimableBalanceTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  asset: Asset,
+  amount: string,
+  claimants: Claimant[],
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<PreparedTransaction> =>
+  buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.createClaimableBalance({ asset, amount, claimants }),
+    feeLevel,
+    memo
+  );
+
+/**
+ * Builds an unsigned claim of `balanceId`. When `trustAsset` is given, a
+ * `changeTrust` for it goes first so the claimed funds have somewhere to land.
+ */
+export const buildClaimBalanceTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  balanceId: string,
+  trustAsset?: Asset,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<PreparedTransaction> =>
+  buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    [
+      ...(trustAsset ? [Operation.changeTrust({ asset: trustAsset })] : []),
+      Operation.claimClaimableBalance({ balanceId })
+    ],
+    feeLevel
+  );
+
+/** Signer weight, plus any account weights and thresholds to set alongside it. */
+export type AccountSignerChange = {
+  weight: number;
+  masterWeight?: number;
+  highThreshold?: number;
+};
+
+/** Builds an unsigned `setOptions` adding (weight > 0) or removing (weight 0) a signer. */
+export const buildAccountSignerTransaction = (
+  network: NetworkProfile,
+  sourcePublicKey: string,
+  signerPublicKey: string,
+  { weight, masterWeight, highThreshold }: AccountSignerChange,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<PreparedTransaction> =>
+  buildClassicTransaction(
+    network,
+    sourcePublicKey,
+    Operation.setOptions({
+      signer: { ed25519PublicKey: signerPublicKey, weight },
+      masterWeight,
+      highThreshold
+    }),
+    feeLevel
+  );
+
+/**
+ * Builds, reviews, signs, and submits a simple payment from the supplied
+ * source account to the destination account.
  *
- * @param sourceSecret - Secret key for the funding account (keep safe!).
+ * @param network - Network profile to build and submit against.
+ * @param signer - Signer for the funding account.
  * @param destinationPublicKey - Public key of the recipient.
  * @param amount - Amount in lumens (XLM) to transfer as a string.
+ * @param review - Approval step shown before anything is signed.
+ * @param feeLevel - How aggressively to bid against current network fees.
  */
 export async function sendPaymentOnMainnet(
-  sourceSecret: string,
+  network: NetworkProfile,
+  signer: Signer,
   destinationPublicKey: string,
-  amount: string
+  amount: string,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
 ): Promise<void> {
-  const server = new Horizon.Server(HORIZON_MAINNET_URL);
-
-  const sourceKeypair = Keypair.fromSecret(sourceSecret);
-  const sourceAccountResponse = await server.loadAccount(sourceKeypair.publicKey());
-
-  const transaction = new TransactionBuilder(sourceAccountResponse, {
-    fee: BASE_FEE,
-    networkPassphrase: Networks.PUBLIC
-  })
-    .addOperation(
-      Operation.payment({
-        destination: destinationPublicKey,
-        asset: Asset.native(),
-        amount
-      })
-    )
-    .setTimeout(60)
-    .build();
-
-  transaction.sign(sourceKeypair);
-
-  const result = await submitTransactionWithContext(server, transaction);
-  console.log('Transaction succeeded on mainnet:', result);
+  const prepared = await buildPaymentTransaction(
+    network,
+    signer.publicKey,
+    destinationPublicKey,
+    amount,
+    feeLevel,
+    memo
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Transaction succeeded on ${network.name}:`, result);
 }
 
 /**
@@ -84,231 +415,440 @@ export async function sendPaymentOnMainnet(
  * - The recipient must have a trustline to the asset issuer.
  */
 export async function sendAssetPaymentOnMainnet(
-  sourceSecret: string,
+  network: NetworkProfile,
+  signer: Signer,
   destinationPublicKey: string,
   assetCode: string,
   assetIssuerPublicKey: string,
-  amount: string
+  amount: string,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
 ): Promise<void> {
-  const server = new Horizon.Server(HORIZON_MAINNET_URL);
-  const sourceKeypair = Keypair.fromSecret(sourceSecret);
-  const sourceAccountResponse = await server.loadAccount(sourceKeypair.publicKey());
-
-  const asset = new Asset(assetCode, assetIssuerPublicKey);
-
-  const transaction = new TransactionBuilder(sourceAccountResponse, {
-    fee: BASE_FEE,
-    networkPassphrase: Networks.PUBLIC
-  })
-    .addOperation(
-      Operation.payment({
-        destination: destinationPublicKey,
-        asset,
-        amount
-      })
-    )
-    .setTimeout(60)
-    .build();
-
-  transaction.sign(sourceKeypair);
+  const prepared = await buildAssetPaymentTransaction(
+    network,
+    signer.publicKey,
+    destinationPublicKey,
+    assetCode,
+    assetIssuerPublicKey,
+    amount,
+    feeLevel,
+    memo
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Asset payment (${assetCode}) succeeded on ${network.name}:`, result);
+}
 
-  const result = await submitTransactionWithContext(server, transaction);
-  console.log(`Asset payment (${assetCode}) succeeded on mainnet:`, result);
+/** Builds, reviews, signs, and submits a cross-asset path payment. */
+export async function sendPathPaymentOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  destinationPublicKey: string,
+  quote: PathQuote,
+  slippageBps: number,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<void> {
+  const prepared = await buildPathPaymentTransaction(
+    network,
+    signer.publicKey,
+    destinationPublicKey,
+    quote,
+    slippageBps,
+    feeLevel,
+    memo
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(
+    `Path payment (${assetCodeOf(quote.sendAsset)} → ${assetCodeOf(quote.destAsset)}) succeeded on ${network.name}:`,
+    result
+  );
 }
 
 /**
  * Creates or updates a trustline for the given asset on behalf of the account
- * identified by `accountSecret`.
+ * controlled by `signer`.
  */
 export async function createTrustlineOnMainnet(
-  accountSecret: string,
+  network: NetworkProfile,
+  signer: Signer,
   assetCode: string,
   assetIssuerPublicKey: string,
-  limit?: string
+  review: ReviewTransaction,
+  limit?: string,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
 ): Promise<void> {
-  if (!StrKey.isValidEd25519PublicKey(assetIssuerPublicKey)) {
-    throw new Error('Asset issuer must be a valid Stellar public key (G...).');
-  }
-
-  const server = new Horizon.Server(HORIZON_MAINNET_URL);
-  const accountKeypair = Keypair.fromSecret(accountSecret);
-  const accountResponse = await server.loadAccount(accountKeypair.publicKey());
-
-  const asset = new Asset(assetCode, assetIssuerPublicKey);
-
-  const transaction = new TransactionBuilder(accountResponse, {
-    fee: BASE_FEE,
-    networkPassphrase: Networks.PUBLIC
-  })
-    .addOperation(
-      Operation.changeTrust({
-        asset,
-        limit
-      })
-    )
-    .setTimeout(60)
-    .build();
-
-  transaction.sign(accountKeypair);
-
-  const result = await submitTransactionWithContext(server, transaction);
+  const prepared = await buildTrustlineTransaction(
+    network,
+    signer.publicKey,
+    assetCode,
+    assetIssuerPublicKey,
+    limit,
+    feeLevel
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
   console.log(`Trustline established/updated for ${assetCode}:`, result);
 }
 
-const parseAxiosError = (error: unknown): string | null => {
-  if (
-    typeof error === 'object' &&
-    error !== null &&
-    'isAxiosError' in error &&
-    (error as { isAxiosError: boolean }).isAxiosError
-  ) {
-    const axiosErr = error as {
-      response?: { status: number; statusText?: string; data?: unknown };
-      message?: string;
-    };
-
-    const status = axiosErr.response?.status;
-    const statusText = axiosErr.response?.statusText;
-    const message = axiosErr.message ?? 'Request failed';
-    const data = axiosErr.response?.data;
-
-    const parts = [
-      status ? `HTTP ${status}` : null,
-      statusText || null,
-      message || null,
-      data ? `Response: ${JSON.stringify(data)}` : null
-    ].filter(Boolean);
-
-    return parts.length > 0 ? parts.join(' – ') : 'Network request failed (Axios).';
-  }
-
-  return null;
-};
-
-const parseHorizonError = (error: unknown): string | null => {
-  if (
-    typeof error === 'object' &&
-    error !== null &&
-    'response' in error &&
-    'status' in (error as Record<string, unknown>)
-  ) {
-    try {
-      const response = (error as { response: Record<string, unknown> }).response;
-      const status = response?.status as number | undefined;
-      const title = (response?.data as { title?: string })?.title;
-      const detail = (response?.data as { detail?: string })?.detail;
-      const extras = (response?.data as { extras?: Record<string, unknown> })?.extras;
-
-      const horizonParts = [
-        status ? `Horizon HTTP ${status}` : null,
-        title || null,
-        detail || null,
-        extras ? `Extras: ${JSON.stringify(extras)}` : null
-      ].filter(Boolean);
-
-      if (horizonParts.length > 0) {
-        return horizonParts.join(' – ');
-      }
-    } catch {
-      /* ignore parsing errors */
-    }
-  }
+/** Changes an existing trustline's limit, refusing limits below what it holds. */
+export async function updateTrustlineLimitOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  assetCode: string,
+  assetIssuerPublicKey: string,
+  limit: string,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<void> {
+  const balances = await fetchWalletBalances(network, signer.publicKey);
+  assertLimitAllowed(balances, assetCode, assetIssuerPublicKey, limit);
+  await createTrustlineOnMainnet(
+    network,
+    signer,
+    assetCode,
+    assetIssuerPublicKey,
+    review,
+    limit,
+    feeLevel
+  );
+}
 
-  return null;
-};
+/**
+ * Removes a trustline (limit 0), freeing its base reserve. Only allowed once
+ * the trustline holds no balance and has no open offers.
+ */
+export async function removeTrustlineOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  assetCode: string,
+  assetIssuerPublicKey: string,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<void> {
+  const balances = await fetchWalletBalances(network, signer.publicKey);
+  assertTrustlineRemovable(balances, assetCode, assetIssuerPublicKey);
+  await createTrustlineOnMainnet(
+    network,
+    signer,
+    assetCode,
+    assetIssuerPublicKey,
+    review,
+    '0',
+    feeLevel
+  );
+}
 
-export const formatStellarError = (error: unknown, fallbackMessage: string): string => {
-  const axiosInfo = parseAxiosError(error);
-  const horizonInfo = parseHorizonError(error);
+/**
+ * Creates (activates) `destinationPublicKey` with `startingBalance` XLM paid
+ * by the account controlled by `sponsorSigner`.
+ */
+export async function createAccountOnMainnet(
+  network: NetworkProfile,
+  sponsorSigner: Signer,
+  destinationPublicKey: string,
+  startingBalance: string,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<void> {
+  const prepared = await buildCreateAccountTransaction(
+    network,
+    sponsorSigner.publicKey,
+    destinationPublicKey,
+    startingBalance,
+    feeLevel
+  );
+  const signedTransaction = await reviewAndSign(network, sponsorSigner, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Account ${destinationPublicKey} created on ${network.name}:`, result);
+}
 
-  if (axiosInfo || horizonInfo) {
-    return [axiosInfo, horizonInfo].filter(Boolean).join(' | ');
-  }
+/**
+ * Sends an asset as a claimable balance, for recipients that cannot receive
+ * a plain payment yet (no account or no trustline). `terms` set when the
+ * recipient, and optionally we, may claim it.
+ */
+export async function sendClaimableBalanceOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  destination: string,
+  assetCode: string,
+  assetIssuerPublicKey: string,
+  amount: string,
+  terms: ClaimTerms,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL,
+  memo?: Memo
+): Promise<void> {
+  assertPaymentDestination(destination);
+  // Claimants must be plain accounts; a muxed id has no meaning here.
+  const claimants = buildClaimants(signer.publicKey, baseAccountOf(destination), terms);
+  const prepared = await buildClaimableBalanceTransaction(
+    network,
+    signer.publicKey,
+    new Asset(assetCode, assetIssuerPublicKey),
+    amount,
+    claimants,
+    feeLevel,
+    memo
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Claimable ${assetCode} balance for ${destination} created on ${network.name}:`, result);
+}
 
-  if (error instanceof Error && error.message) {
-    return error.message;
+/**
+ * Claims `balance`, adding the asset's trustline first if the account lacks
+ * it. Anyone can send a claimable balance, so the asset is verified before
+ * we trust it.
+ */
+export async function claimBalanceOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  balance: ClaimableBalance,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<void> {
+  if (balance.assetIssuer) {
+    await assertAssetNotMismatched(network, balance.assetCode, balance.assetIssuer);
   }
+  const asset = balanceAsset(balance);
+  const needsTrustline =
+    !asset.isNative() &&
+    !(await fetchWalletBalances(network, signer.publicKey)).some(
+      (entry) => entry.assetCode === balance.assetCode && entry.assetIssuer === balance.assetIssuer
+    );
+  const prepared = await buildClaimBalanceTransaction(
+    network,
+    signer.publicKey,
+    balance.id,
+    needsTrustline ? asset : undefined,
+    feeLevel
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Claimed ${balance.amount} ${balance.assetCode} on ${network.name}:`, result);
+}
 
-  if (
-    typeof error === 'object' &&
-    error !== null &&
-    'message' in error &&
-    typeof (error as { message?: unknown }).message === 'string'
-  ) {
-    return String((error as { message?: unknown }).message);
-  }
+/**
+ * Adds `signerPublicKey` as a signer of the account with `change.weight`, or
+ * removes it when the weight is 0, setting any weights and thresholds in
+ * `change` in the same operation.
+ */
+export async function setAccountSignerOnMainnet(
+  network: NetworkProfile,
+  signer: Signer,
+  signerPublicKey: string,
+  change: AccountSignerChange,
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<void> {
+  const prepared = await buildAccountSignerTransaction(
+    network,
+    signer.publicKey,
+    signerPublicKey,
+    change,
+    feeLevel
+  );
+  const signedTransaction = await reviewAndSign(network, signer, prepared, review);
+
+  const result = await submitTransactionWithContext(network, signedTransaction);
+  console.log(`Signer ${signerPublicKey} set to weight ${change.weight} on ${network.name}:`, result);
+}
 
-  return fallbackMessage;
-};
+/** Actionable message for any error; see `stellarErrors.ts` for the typed details. */
+export const formatStellarError = (error: unknown, fallbackMessage: string): string =>
+  toStellarError(error, fallbackMessage).message;
 
 async function submitTransactionWithContext(
-  server: Horizon.Server,
-  transaction: ReturnType<TransactionBuilder['build']>
+  network: NetworkProfile,
+  transaction: BuiltTransaction | FeeBumpTransaction
 ) {
   try {
-    return await server.submitTransaction(transaction);
+    const result = await createHorizonServer(network).submitTransaction(transaction);
+    recordAppliedTransaction(network, transaction);
+    return result;
   } catch (error) {
-    throw new Error(formatStellarError(error, 'Transaction failed.'));
+    // A failed or timed-out submission may or may not have consumed the sequence.
+    forgetSequence(network, sourceOf(transaction));
+    const parsed = toStellarError(error, 'Transaction failed.');
+    throw canStillLand(transaction) ? asStuckTransaction(parsed, transaction.toXDR()) : parsed;
   }
 }
 
-export const interactPoolOp = (supply: boolean) => 
-  async (
-  sourceSecret: string,
+/**
+ * Simulates a Soroban transaction and assembles the footprint, auth and
+ * resource fee into it, keeping the simulated fee for review.
+ */
+const prepareSorobanTransaction = async (
+  network: NetworkProfile,
+  transaction: BuiltTransaction
+): Promise<PreparedTransaction> => {
+  const sorobanServer = createSorobanServer(network);
+  const simulation = await sorobanServer.simulateTransaction(transaction);
+
+  if (SorobanRpc.Api.isSimulationError(simulation)) {
+    throw fromSimulationError(simulation);
+  }
+
+  return {
+    kind: 'soroban',
+    transaction: SorobanRpc.assembleTransaction(transaction, simulation).build(),
+    resourceFee: simulation.minResourceFee
+  };
+};
+
+/**
+ * Builds and simulates a Blend `submit` carrying `requests`, with the source
+ * account acting as position owner, spender and receiver.
+ */
+export const buildPoolSubmitTransaction = async (
+  network: NetworkProfile,
+  sourcePublicKey: string,
   poolId: string,
-  asset: string,
-  amount: bigint): Promise<void> => {
-  const horizonServer = new Horizon.Server(HORIZON_MAINNET_URL);
-  const sorobanServer = new SorobanRpc.Server(SOROBAN_RPC_URL);
-  
-  const keypair = Keypair.fromSecret(sourceSecret);
-  const account = await horizonServer.loadAccount(keypair.publicKey());
-
-  const poolContract = new PoolContract(poolId);
-
-  const supplyOpBase64 = poolContract.submit({
-    from: keypair.publicKey(),
-    spender: keypair.publicKey(),
-    to: keypair.publicKey(),
-    requests: [
-      {
-        amount,
-        request_type: supply? RequestType.SupplyCollateral : RequestType.WithdrawCollateral,
-        address: asset
-      }
-    ]
+  requests: Request[],
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<PreparedTransaction> => {
+  const account = await loadSourceAccount(network, sourcePublicKey);
+
+  const poolContract = new PoolContractV2(poolId);
+
+  const submitOpBase64 = poolContract.submit({
+    from: sourcePublicKey,
+    spender: sourcePublicKey,
+    to: sourcePublicKey,
+    requests
   });
 
-  const supplyOperation = xdr.Operation.fromXDR(supplyOpBase64, 'base64');
+  const submitOperation = xdr.Operation.fromXDR(submitOpBase64, 'base64');
 
-  let transaction = new TransactionBuilder(account, {
-    fee: BASE_FEE,
-    networkPassphrase: Networks.PUBLIC
+  const transaction = new TransactionBuilder(account, {
+    fee: await resolveBaseFee(network, feeLevel),
+    networkPassphrase: network.passphrase
   })
-    .addOperation(supplyOperation)
-    .setTimeout(60)
+    .addOperation(submitOperation)
+    .setTimeout(TRANSACTION_VALIDITY_SECONDS)
     .build();
 
-  // Simulate and prepare the transaction
-  transaction = await sorobanServer.prepareTransaction(transaction);
+  return prepareSorobanTransaction(network, transaction);
+};
 
-  transaction.sign(keypair);
+/**
+ * Builds, reviews, signs and submits a Blend pool `submit`, then waits for
+ * the transaction to reach a final status on-ledger.
+ */
+export const submitPoolRequests = async (
+  network: NetworkProfile,
+  signer: Signer,
+  poolId: string,
+  requests: Request[],
+  review: ReviewTransaction,
+  feeLevel: FeeLevel = DEFAULT_FEE_LEVEL
+): Promise<SorobanOutcome> => {
+  const prepared = await buildPoolSubmitTransaction(
+    network,
+    signer.publicKey,
+    poolId,
+    requests,
+    feeLevel
+  );
+  const transaction = await reviewAndSign(network, signer, prepared, review);
+
+  return sendSorobanTransaction(network, transaction);
+};
 
-  const result = await sorobanServer.sendTransaction(transaction);
-  console.log('Supply operation submitted:', result);
-  console.log("TxHash", result.hash)
-}
+/**
+ * Sends a signed Soroban transaction and tracks it. Timed-out outcomes keep
+ * the signed envelope, so the caller can offer a fee bump, while the
+ * transaction's time bounds still leave room for one to land.
+ */
+const sendSorobanTransaction = async (
+  network: NetworkProfile,
+  transaction: BuiltTransaction | FeeBumpTransaction
+): Promise<SorobanOutcome> => {
+  const sorobanServer = createSorobanServer(network);
+  const envelopeXdr = transaction.toXDR();
+  const submittedAt = Date.now();
 
-export const supplyOp = interactPoolOp(true)
-export const withdrawalOp = interactPoolOp(false)
+  try {
+    const result = await sorobanServer.sendTransaction(transaction);
+    console.log('Soroban transaction submitted:', result.status, result.hash);
+
+    const outcome = await trackSorobanTransaction(sorobanServer, result);
+    if (outcome.status === 'TIMEOUT') {
+      forgetSequence(network, sourceOf(transaction));
+      const pending = { ...outcome, submittedAt, expiresAt: expiryOf(transaction) };
+      return canStillLand(transaction) ? { ...pending, envelopeXdr } : pending;
+    }
+    // Failed Soroban transactions still consume their sequence number.
+    recordAppliedTransaction(network, transaction);
+    return outcome;
+  } catch (error) {
+    forgetSequence(network, sourceOf(transaction));
+    const parsed = toStellarError(error, 'Transaction failed.');
+    throw canStillLand(transaction) ? asStuckTransaction(parsed, envelopeXdr) : parsed;
+  }
+};
 
-export const poolData = async (poolId: string, userId: string) => {
-  const network = {
-    rpc: SOROBAN_RPC_URL,
-    passphrase: Networks.PUBLIC
-  };
+/** Final status of a Soroban transaction that timed out earlier; see `resolveTimedOutTransaction`. */
+export const checkTimedOutTransaction = (
+  network: NetworkProfile,
+  hash: string,
+  submittedAt: number,
+  expiresAt?: number
+): Promise<TimedOutResolution> =>
+  resolveTimedOutTransaction(createSorobanServer(network), hash, submittedAt, expiresAt);
 
-  const pool = await PoolV2.load(network, poolId);
+/**
+ * Wraps a stuck, already signed transaction in a fee-bump envelope paid by
+ * the signer's account, signs only the outer envelope and resubmits it to
+ * Horizon or Soroban RPC depending on the inner transaction.
+ */
+export const resubmitWithFeeBump = async (
+  network: NetworkProfile,
+  signer: Signer,
+  signedEnvelope: string,
+  feeLevel: FeeLevel
+): Promise<SorobanOutcome> => {
+  const feeBump = await buildFeeBumpTransaction(network, signer.publicKey, signedEnvelope, feeLevel);
+  if (!canStillLand(feeBump)) {
+    throw new ValidationError(
+      'The transaction has expired, so a higher fee can no longer get it through. Submit it again.'
+    );
+  }
+  const signedXdr = await signer.signTransaction(feeBump.toXDR(), network.passphrase);
+  const signedFeeBump = TransactionBuilder.fromXDR(signedXdr, network.passphrase) as FeeBumpTransaction;
+
+  const isSoroban = signedFeeBump.innerTransaction.operations.some(
+    (operation) => operation.type === 'invokeHostFunction'
+  );
+  if (isSoroban) {
+    return sendSorobanTransaction(network, signedFeeBump);
+  }
+
+  const result = await submitTransactionWithContext(network, signedFeeBump);
+  console.log(`Fee-bumped transaction succeeded on ${network.name}:`, result);
+  return { status: 'SUCCESS', hash: result.hash, ledger: result.ledger, diagnostics: [] };
+};
+
+/** Blend SDK network config for a profile. */
+export const blendNetworkFor = (network: NetworkProfile) => ({
+  rpc: network.sorobanRpcUrl,
+  passphrase: network.passphrase,
+  opts: { allowHttp: network.allowHttp }
+});
+
+export const poolData = async (network: NetworkProfile, poolId: string, userId: string) => {
+  const pool = await PoolV2.load(blendNetworkFor(network), poolId);
   const poolOracle = await pool.loadOracle();
   const poolUser = await pool.loadUser(userId);
   const userEstimate = PositionsEstimate.build(pool, poolOracle, poolUser.positions);
@@ -321,17 +861,52 @@ export const poolData = async (poolId: string, userId: string) => {
   };
 };
 
+export type PoolSnapshot = Awaited<ReturnType<typeof poolData>>;
+
 export type WalletBalance = {
   assetType: string;
   assetCode?: string;
   assetIssuer?: string;
   balance: string;
   liquidityPoolId?: string;
+  /** XLM locked by the account's minimum balance; native only. */
+  reserved?: string;
+  /** Trustline fields; only present for issued assets. */
+  limit?: string;
+  buyingLiabilities?: string;
+  sellingLiabilities?: string;
+  isAuthorized?: boolean;
+  isAuthorizedToMaintainLiabilities?: boolean;
+  isClawbackEnabled?: boolean;
 };
 
-export const fetchWalletBalances = async (publicKey: string): Promise<WalletBalance[]> => {
-  const server = new Horizon.Server(HORIZON_MAINNET_URL);
-  const account = await server.loadAccount(publicKey);
+/** Classic balances always carry 7 decimals on-ledger. */
+const STELLAR_DECIMALS = 7;
+
+/** Reserve in effect when the latest ledger can't be read (0.5 XLM). */
+const FALLBACK_BASE_RESERVE = 5_000_000n;
+
+/** Base reserve of the latest ledger, in stroops. */
+export const fetchBaseReserve = async (network: NetworkProfile): Promise<bigint> => {
+  try {
+    const page = await createHorizonServer(network).ledgers().order('desc').limit(1).call();
+    const latest = page.records[0];
+    return latest ? BigInt(latest.base_reserve_in_stroops) : FALLBACK_BASE_RESERVE;
+  } catch (err) {
+    console.warn('Unable to read the base reserve; assuming the protocol default', err);
+    return FALLBACK_BASE_RESERVE;
+  }
+};
+
+export const fetchWalletBalances = async (
+  network: NetworkProfile,
+  publicKey: string
+): Promise<WalletBalance[]> => {
+  const server = createHorizonServer(network);
+  const [account, baseReserve] = await Promise.all([
+    server.loadAccount(publicKey),
+    fetchBaseReserve(network)
+  ]);
 
   return account.balances.map((balance) => {
     if (balance.asset_type === 'liquidity_pool_shares') {
@@ -345,7 +920,10 @@ export const fetchWalletBalances = async (publicKey: string): Promise<WalletBala
     if (balance.asset_type === 'native') {
       return {
         assetType: balance.asset_type,
-        balance: balance.balance
+        balance: balance.balance,
+        reserved: formatUnits(baseReserve * BigInt(2 + account.subentry_count), STELLAR_DECIMALS),
+        buyingLiabilities: balance.buying_liabilities,
+        sellingLiabilities: balance.selling_liabilities
       };
     }
 
@@ -353,7 +931,47 @@ export const fetchWalletBalances = async (publicKey: string): Promise<WalletBala
       assetType: balance.asset_type,
       assetCode: balance.asset_code,
       assetIssuer: balance.asset_issuer,
-      balance: balance.balance
+      balance: balance.balance,
+      limit: balance.limit,
+      buyingLiabilities: balance.buying_liabilities,
+      sellingLiabilities: balance.selling_liabilities,
+      isAuthorized: balance.is_authorized,
+      isAuthorizedToMaintainLiabilities: balance.is_authorized_to_maintain_liabilities,
+      isClawbackEnabled: balance.is_clawback_enabled
     };
   });
 };
+
+/** XLM kept back from "spend everything" so the transaction can still pay its fees. */
+const NATIVE_FEE_HEADROOM = decimalToUnits('0.5', STELLAR_DECIMALS);
+
+/**
+ * What can actually leave the account: the balance minus offers' selling
+ * liabilities and, for XLM, minus the minimum balance and fee headroom.
+ * Never negative.
+ */
+export const spendableBalance = (balance: WalletBalance): string => {
+  const units = (value?: string) => (value ? decimalToUnits(value, STELLAR_DECIMALS) : 0n);
+  let spendable = units(balance.balance) - units(balance.sellingLiabilities);
+  if (balance.assetType === 'native') {
+    spendable -= units(balance.reserved) + NATIVE_FEE_HEADROOM;
+  }
+  return formatUnits(spendable > 0n ? spendable : 0n, STELLAR_DECIMALS);
+};
+
+/**
+ * Stellar Asset Contract address for a classic balance, which is how Blend
+ * reserves identify the same asset.
+ */
+export const balanceContractId = (
+  balance: WalletBalance,
+  network: NetworkProfile
+): string | undefined => {
+  if (balance.assetType === 'native') {
+    return Asset.native().contractId(network.passphrase);
+  }
+  if (balance.assetCode && balance.assetIssuer) {
+    return new Asset(balance.assetCode, balance.assetIssuer).contractId(network.passphrase);
+  }
+  return undefined;
+};
@@ -0,0 +1,57 @@
+/**
+ * SEP-1 `stellar.toml` lookups. Issuers and anchors publish their assets,
+ * signing keys and service endpoints in `https://<home domain>/.well-known/stellar.toml`;
+ * several features read it, so the parsed file is cached per network and domain.
+ */
+
+import { StellarToml } from 'stellar-sdk';
+
+import type { NetworkProfile } from './networks';
+import { NetworkError } from './stellarErrors';
+
+const TOML_TIMEOUT_MS = 10_000;
+
+const TOML_TTL_MS = 10 * 60_000;
+
+const tomlCache = new Map<string, { fetchedAt: number; toml: StellarToml.Api.StellarToml }>();
+
+/**
+ * Fetches and parses a domain's `stellar.toml`. Networks that allow plain
+ * HTTP (the local quickstart) also fetch over HTTP, so a stub server such as
+ * `localhost:8080` can stand in for a real home domain.
+ */
+export const fetchStellarToml = async (
+  network: NetworkProfile,
+  homeDomain: string
+): Promise<StellarToml.Api.StellarToml> => {
+  const key = `${network.id}:${homeDomain}`;
+  const cached = tomlCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < TOML_TTL_MS) {
+    return cached.toml;
+  }
+
+  let toml: StellarToml.Api.StellarToml;
+  try {
+    toml = await StellarToml.Resolver.resolve(homeDomain, {
+      allowHttp: network.allowHttp,
+      timeout: TOML_TIMEOUT_MS
+    });
+  } catch (err) {
+    throw new NetworkError(
+      `Unable to load stellar.toml from ${homeDomain}.`,
+      undefined,
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+
+  tomlCache.set(key, { fetchedAt: Date.now(), toml });
+  return toml;
+};
+
+/** The `[[CURRENCIES]]` entry for an asset, if the file lists it. */
+export const findTomlCurrency = (
+  toml: StellarToml.Api.StellarToml,
+  code: string,
+  issuer: string
+): StellarToml.Api.Currency | undefined =>
+  toml.CURRENCIES?.find((currency) => currency.code === code && currency.issuer === issuer);
@@ -0,0 +1,158 @@
+/**
+ * Per-account transaction queue. Jobs run one at a time in the order they
+ * were enqueued, so sequence numbers never race. A job that fails with
+ * `tx_bad_seq` is retried after reloading the account from Horizon; because
+ * each job builds its own transaction, the retry rebuilds (and goes back
+ * through review) with the fresh sequence number.
+ */
+
+import type { NetworkProfile } from './networks';
+import { forgetSequence } from './sequenceTracker';
+import { TransactionFailedError, toStellarError } from './stellarErrors';
+import { TransactionRejectedError } from './stellarMainnetExample';
+
+export type QueueItemStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'rejected' | 'skipped';
+
+export type QueueItem = {
+  id: number;
+  label: string;
+  status: QueueItemStatus;
+  /** Number of times the job has been started, including sequence retries. */
+  attempts: number;
+  error?: string;
+};
+
+export type TransactionQueue = {
+  /** Adds a job to the end of the queue; resolves or rejects with the job's result. */
+  enqueue: <T>(label: string, run: () => Promise<T>) => Promise<T>;
+  subscribe: (listener: (items: QueueItem[]) => void) => () => void;
+  /** Removes finished items from the list. */
+  clearFinished: () => void;
+  /** Skips everything still waiting, e.g. when the wallet is locked. */
+  cancelPending: () => void;
+};
+
+/** Raised for queued jobs skipped because an earlier job failed or the queue was cancelled. */
+export class QueueItemSkippedError extends Error {
+  constructor(label: string) {
+    super(`${label} was skipped because an earlier transaction did not complete.`);
+    this.name = 'QueueItemSkippedError';
+  }
+}
+
+const MAX_SEQUENCE_RETRIES = 2;
+
+type PendingJob = {
+  item: QueueItem;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+const isBadSequence = (error: unknown) => {
+  const parsed = toStellarError(error, '');
+  return parsed instanceof TransactionFailedError && parsed.transactionCode === 'tx_bad_seq';
+};
+
+const FINISHED: QueueItemStatus[] = ['succeeded', 'failed', 'rejected', 'skipped'];
+
+/**
+ * Creates the queue for one account on one network. Jobs enqueued after a
+ * failure still run, but jobs already waiting behind the failed one are
+ * skipped, since they were queued on the assumption that it would succeed
+ * (e.g. a payment queued behind the trustline it needs).
+ */
+export const createTransactionQueue = (
+  network: NetworkProfile,
+  accountId: string
+): TransactionQueue => {
+  let items: QueueItem[] = [];
+  let pending: PendingJob[] = [];
+  let running = false;
+  let nextId = 1;
+  const listeners = new Set<(items: QueueItem[]) => void>();
+
+  const notify = () => {
+    const snapshot = items.map((item) => ({ ...item }));
+    listeners.forEach((listener) => listener(snapshot));
+  };
+
+  const update = (id: number, changes: Partial<QueueItem>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+    notify();
+  };
+
+  const skipPending = () => {
+    const skipped = pending;
+    pending = [];
+    skipped.forEach((job) => {
+      update(job.item.id, { status: 'skipped' });
+      job.reject(new QueueItemSkippedError(job.item.label));
+    });
+  };
+
+  const runJob = async (job: PendingJob) => {
+    for (let attempt = 1; ; attempt += 1) {
+      update(job.item.id, { status: 'running', attempts: attempt });
+      try {
+        return await job.run();
+      } catch (err) {
+        if (isBadSequence(err) && attempt <= MAX_SEQUENCE_RETRIES) {
+          console.warn(`${job.item.label}: sequence number out of date, rebuilding`, err);
+          forgetSequence(network, accountId);
+          continue;
+        }
+        throw err;
+      }
+    }
+  };
+
+  const drain = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    while (pending.length > 0) {
+      const job = pending.shift() as PendingJob;
+      try {
+        const result = await runJob(job);
+        update(job.item.id, { status: 'succeeded' });
+        job.resolve(result);
+      } catch (err) {
+        const rejected = err instanceof TransactionRejectedError;
+        update(job.item.id, {
+          status: rejected ? 'rejected' : 'failed',
+          error: rejected ? undefined : toStellarError(err, 'Transaction failed.').message
+        });
+        job.reject(err);
+        skipPending();
+      }
+    }
+
+    running = false;
+  };
+
+  return {
+    enqueue: <T>(label: string, run: () => Promise<T>) =>
+      new Promise<T>((resolve, reject) => {
+        const item: QueueItem = { id: nextId++, label, status: 'queued', attempts: 0 };
+        items = [...items, item];
+        pending.push({ item, run, resolve: resolve as (value: unknown) => void, reject });
+        notify();
+        void drain();
+      }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(items.map((item) => ({ ...item })));
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clearFinished: () => {
+      items = items.filter((item) => !FINISHED.includes(item.status));
+      notify();
+    },
+    cancelPending: skipPending
+  };
+};
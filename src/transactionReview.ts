@@ -0,0 +1,217 @@
+/**
+ * Decodes a prepared transaction into plain labelled fields for the review
+ * dialog, so users can see exactly what they are about to sign.
+ */
+
+import { Address, Asset, Memo, Operation, scValToNative, xdr } from 'stellar-sdk';
+
+import { describeClaimPredicate } from './claimableBalances';
+import type { NetworkProfile } from './networks';
+import type { PreparedTransaction } from './stellarMainnetExample';
+
+export type ReviewField = {
+  label: string;
+  value: string;
+};
+
+export type OperationSummary = {
+  type: string;
+  fields: ReviewField[];
+};
+
+export type TransactionSummary = {
+  networkName: string;
+  kind: PreparedTransaction['kind'];
+  source: string;
+  sequence: string;
+  fee: string;
+  resourceFee?: string;
+  timeBounds?: { minTime: string; maxTime: string };
+  memo?: string;
+  operations: OperationSummary[];
+};
+
+const STROOPS_PER_XLM = 10_000_000n;
+
+export const formatStroops = (stroops: string): string => {
+  const value = BigInt(stroops);
+  const whole = value / STROOPS_PER_XLM;
+  const fraction = (value % STROOPS_PER_XLM).toString().padStart(7, '0').replace(/0+$/, '');
+  return `${whole}${fraction ? `.${fraction}` : ''} XLM (${stroops} stroops)`;
+};
+
+const formatTimestamp = (seconds: string): string =>
+  seconds === '0' ? 'none' : new Date(Number(seconds) * 1000).toLocaleString();
+
+const formatMemo = (memo: Memo): string | undefined => {
+  if (memo.type === 'none' || memo.value === null) {
+    return undefined;
+  }
+  const value = typeof memo.value === 'string' ? memo.value : memo.value.toString('hex');
+  return `${memo.type}: ${value}`;
+};
+
+export const formatAsset = (asset: Asset): string =>
+  asset.isNative() ? 'XLM (native)' : `${asset.getCode()} · ${asset.getIssuer()}`;
+
+const describePath = (path: Asset[]): string =>
+  path.length > 0 ? path.map(formatAsset).join(' → ') : 'direct';
+
+const stringifyNative = (value: unknown): string =>
+  JSON.stringify(
+    value,
+    (_key, inner) => (typeof inner === 'bigint' ? inner.toString() : inner),
+    2
+  ) ?? String(value);
+
+const describeScVal = (value: xdr.ScVal): string => {
+  try {
+    return stringifyNative(scValToNative(value));
+  } catch {
+    return value.toXDR('base64');
+  }
+};
+
+const describeHostFunction = (func: xdr.HostFunction): ReviewField[] => {
+  if (func.switch() !== xdr.HostFunctionType.hostFunctionTypeInvokeContract()) {
+    return [{ label: 'Host function', value: func.switch().name }];
+  }
+
+  const invocation = func.invokeContract();
+  const fields: ReviewField[] = [
+    { label: 'Contract', value: Address.fromScAddress(invocation.contractAddress()).toString() },
+    { label: 'Function', value: invocation.functionName().toString() }
+  ];
+
+  invocation.args().forEach((arg, index) => {
+    fields.push({ label: `Argument ${index + 1}`, value: describeScVal(arg) });
+  });
+
+  return fields;
+};
+
+/** Every field of an operation we have no dedicated layout for. */
+const describeRawFields = (operation: Operation): ReviewField[] =>
+  Object.entries(operation)
+    .filter(([key]) => key !== 'type' && key !== 'source')
+    .map(([key, value]) => ({ label: key, value: stringifyNative(value) }));
+
+const describeOperation = (operation: Operation): OperationSummary => {
+  const fields: ReviewField[] = [];
+  if (operation.source) {
+    fields.push({ label: 'Source', value: operation.source });
+  }
+
+  switch (operation.type) {
+    case 'payment':
+      fields.push(
+        { label: 'Destination', value: operation.destination },
+        { label: 'Asset', value: formatAsset(operation.asset) },
+        { label: 'Amount', value: operation.amount }
+      );
+      break;
+    case 'pathPaymentStrictSend':
+      fields.push(
+        { label: 'Destination', value: operation.destination },
+        { label: 'Send', value: `${operation.sendAmount} ${formatAsset(operation.sendAsset)}` },
+        { label: 'Receive at least', value: `${operation.destMin} ${formatAsset(operation.destAsset)}` },
+        { label: 'Path', value: describePath(operation.path) }
+      );
+      break;
+    case 'pathPaymentStrictReceive':
+      fields.push(
+        { label: 'Destination', value: operation.destination },
+        { label: 'Send at most', value: `${operation.sendMax} ${formatAsset(operation.sendAsset)}` },
+        { label: 'Receive', value: `${operation.destAmount} ${formatAsset(operation.destAsset)}` },
+        { label: 'Path', value: describePath(operation.path) }
+      );
+      break;
+    case 'createAccount':
+      fields.push(
+        { label: 'Destination', value: operation.destination },
+        { label: 'Starting balance', value: `${operation.startingBalance} XLM` }
+      );
+      break;
+    case 'changeTrust':
+      fields.push(
+        {
+          label: 'Asset',
+          value: operation.line instanceof Asset ? formatAsset(operation.line) : 'Liquidity pool shares'
+        },
+        {
+          label: 'Limit',
+          value: operation.limit === '0' ? '0 (removes trustline)' : operation.limit
+        }
+      );
+      break;
+    case 'createClaimableBalance':
+      fields.push(
+        { label: 'Asset', value: formatAsset(operation.asset) },
+        { label: 'Amount', value: operation.amount },
+        ...operation.claimants.map((claimant, index) => ({
+          label: `Claimant ${index + 1}`,
+          value: `${claimant.destination} (${describeClaimPredicate(claimant.predicate)})`
+        }))
+      );
+      break;
+    case 'claimClaimableBalance':
+      fields.push({ label: 'Balance ID', value: operation.balanceId });
+      break;
+    case 'setOptions':
+      if (operation.signer && 'ed25519PublicKey' in operation.signer) {
+        const weight = operation.signer.weight ?? 0;
+        fields.push(
+          { label: 'Signer', value: operation.signer.ed25519PublicKey },
+          { label: 'Weight', value: weight === 0 ? '0 (removes signer)' : String(weight) }
+        );
+        if (operation.masterWeight !== undefined) {
+          fields.push({ label: 'Master key weight', value: String(operation.masterWeight) });
+        }
+        if (operation.highThreshold !== undefined) {
+          fields.push({ label: 'High threshold', value: String(operation.highThreshold) });
+        }
+        if (weight > 0) {
+          fields.push({
+            label: 'Warning',
+            value:
+              'This key will be able to sign payments for this account and can move your funds. Only approve it on a device you trust.'
+          });
+        }
+      } else {
+        fields.push(...describeRawFields(operation));
+      }
+      break;
+    case 'invokeHostFunction':
+      fields.push(...describeHostFunction(operation.func));
+      fields.push({ label: 'Authorizations', value: String(operation.auth?.length ?? 0) });
+      break;
+    default:
+      fields.push(...describeRawFields(operation));
+  }
+
+  return { type: operation.type, fields };
+};
+
+export const describeTransaction = (
+  prepared: PreparedTransaction,
+  network: NetworkProfile
+): TransactionSummary => {
+  const { transaction } = prepared;
+
+  return {
+    networkName: network.name,
+    kind: prepared.kind,
+    source: transaction.source,
+    sequence: transaction.sequence,
+    fee: formatStroops(transaction.fee),
+    resourceFee: prepared.resourceFee ? formatStroops(prepared.resourceFee) : undefined,
+    timeBounds: transaction.timeBounds
+      ? {
+          minTime: formatTimestamp(transaction.timeBounds.minTime),
+          maxTime: formatTimestamp(transaction.timeBounds.maxTime)
+        }
+      : undefined,
+    memo: formatMemo(transaction.memo),
+    operations: transaction.operations.map(describeOperation)
+  };
+};
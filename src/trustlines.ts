@@ -0,0 +1,89 @@
+/**
+ * Trustline bookkeeping. A trustline can only be removed (limit set to 0)
+ * once it holds no balance and no open offers, and its limit can never drop
+ * below what it holds plus what open offers may still buy; otherwise the
+ * network rejects the `changeTrust`. These checks catch that before signing;
+ * callers pass balances freshly loaded from Horizon rather than the possibly
+ * stale UI copy.
+ */
+
+import { decimalToUnits, parseDecimalAmount } from './amounts';
+import { ValidationError } from './stellarErrors';
+import type { WalletBalance } from './stellarMainnetExample';
+
+export type Trustline = WalletBalance & { assetCode: string; assetIssuer: string };
+
+const STELLAR_DECIMALS = 7;
+
+const units = (value: string | undefined) => decimalToUnits(value ?? '0', STELLAR_DECIMALS);
+
+/** Trustlines among the account's balances (issued assets only). */
+export const listTrustlines = (balances: WalletBalance[]): Trustline[] =>
+  balances.filter(
+    (balance): balance is Trustline => Boolean(balance.assetCode && balance.assetIssuer)
+  );
+
+/** Why the trustline cannot be removed right now, or `null` if it can. */
+export const removalBlocker = (trustline: Trustline): string | null => {
+  if (units(trustline.balance) > 0n) {
+    return `It still holds ${trustline.balance} ${trustline.assetCode}; send or sell it first.`;
+  }
+  if (units(trustline.buyingLiabilities) > 0n || units(trustline.sellingLiabilities) > 0n) {
+    return 'It has open offers; cancel them first.';
+  }
+  return null;
+};
+
+/** Why `limit` is not allowed for the trustline, or `null` if it is. */
+export const limitBlocker = (trustline: Trustline, limit: string): string | null => {
+  let requested: bigint;
+  try {
+    requested = parseDecimalAmount(limit, STELLAR_DECIMALS);
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Enter a valid limit.';
+  }
+  const minimum = units(trustline.balance) + units(trustline.buyingLiabilities);
+  if (requested < minimum) {
+    return `The limit cannot be lower than the balance plus open buy offers (${trustline.balance} ${trustline.assetCode} held).`;
+  }
+  return null;
+};
+
+const findTrustline = (
+  balances: WalletBalance[],
+  assetCode: string,
+  assetIssuer: string
+): Trustline => {
+  const trustline = listTrustlines(balances).find(
+    (entry) => entry.assetCode === assetCode && entry.assetIssuer === assetIssuer
+  );
+  if (!trustline) {
+    throw new ValidationError(`This account has no ${assetCode} trustline.`);
+  }
+  return trustline;
+};
+
+/** Throws unless the trustline in `balances` (freshly loaded) can be removed. */
+export const assertTrustlineRemovable = (
+  balances: WalletBalance[],
+  assetCode: string,
+  assetIssuer: string
+): void => {
+  const blocker = removalBlocker(findTrustline(balances, assetCode, assetIssuer));
+  if (blocker) {
+    throw new ValidationError(`Cannot remove the ${assetCode} trustline. ${blocker}`);
+  }
+};
+
+/** Throws unless `limit` is allowed for the trustline in `balances` (freshly loaded). */
+export const assertLimitAllowed = (
+  balances: WalletBalance[],
+  assetCode: string,
+  assetIssuer: string,
+  limit: string
+): void => {
+  const blocker = limitBlocker(findTrustline(balances, assetCode, assetIssuer), limit);
+  if (blocker) {
+    throw new ValidationError(blocker);
+  }
+};
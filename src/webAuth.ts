@@ -0,0 +1,220 @@
+/**
+ * SEP-10 web authentication. A service proves we control an account by
+ * asking us to sign a challenge transaction that can never be submitted
+ * (sequence 0, only `manageData` operations). Because the wallet is being
+ * asked to sign something, the challenge is validated field by field before
+ * the signer sees it. The JWT returned for a signed challenge is cached per
+ * network, domain and account until shortly before it expires, so anchors
+ * and backend integrations can share one login.
+ */
+
+import { StrKey, Transaction, TransactionBuilder, WebAuth } from 'stellar-sdk';
+
+import type { NetworkProfile } from './networks';
+import type { Signer } from './signer';
+import { NetworkError, ValidationError } from './stellarErrors';
+import { fetchStellarToml } from './stellarToml';
+
+/** Where and how to authenticate with one service. */
+export type WebAuthConfig = {
+  homeDomain: string;
+  endpoint: string;
+  signingKey: string;
+};
+
+export type AuthToken = {
+  token: string;
+  /** Unix seconds; tokens without `exp` are treated as valid for an hour. */
+  expiresAt: number;
+};
+
+/** Allowed clock skew between us and the server when checking time bounds. */
+const CLOCK_SKEW_SECONDS = 5 * 60;
+
+/** Tokens this close to expiry are refreshed instead of reused. */
+const EXPIRY_MARGIN_SECONDS = 60;
+
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+const tokenCache = new Map<string, AuthToken>();
+
+const cacheKey = (network: NetworkProfile, homeDomain: string, account: string) =>
+  `${network.id}:${homeDomain}:${account}`;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const reject = (reason: string): never => {
+  throw new ValidationError(`Refusing to sign the login challenge: ${reason}`);
+};
+
+/** Reads the SEP-10 endpoint and signing key from the service's `stellar.toml`. */
+export const resolveWebAuthConfig = async (
+  network: NetworkProfile,
+  homeDomain: string
+): Promise<WebAuthConfig> => {
+  const toml = await fetchStellarToml(network, homeDomain);
+  if (!toml.WEB_AUTH_ENDPOINT || !toml.SIGNING_KEY) {
+    throw new ValidationError(`${homeDomain} does not publish a SEP-10 auth endpoint and signing key.`);
+  }
+  if (!StrKey.isValidEd25519PublicKey(toml.SIGNING_KEY)) {
+    throw new ValidationError(`${homeDomain} publishes an invalid SIGNING_KEY.`);
+  }
+  return { homeDomain, endpoint: toml.WEB_AUTH_ENDPOINT, signingKey: toml.SIGNING_KEY };
+};
+
+/**
+ * Checks a challenge before it is signed: it must be a sequence-0
+ * transaction from the server's signing key, currently within its time
+ * bounds, made only of `manageData` operations (the first one for our
+ * account and `<home domain> auth`, the rest from the server), carry the
+ * expected `web_auth_domain`, and already be signed by the server.
+ */
+export const validateChallenge = (
+  network: NetworkProfile,
+  challengeXdr: string,
+  config: WebAuthConfig,
+  account: string
+): Transaction => {
+  let parsed;
+  try {
+    parsed = TransactionBuilder.fromXDR(challengeXdr, network.passphrase);
+  } catch {
+    return reject('it is not a valid transaction for this network.');
+  }
+  if (!(parsed instanceof Transaction)) {
+    return reject('it is a fee-bump transaction.');
+  }
+  const challenge = parsed;
+
+  if (challenge.source !== config.signingKey) {
+    reject('it is not sourced from the server signing key.');
+  }
+  if (challenge.sequence !== '0') {
+    reject('its sequence number is not 0, so it could be submitted to the network.');
+  }
+
+  const { timeBounds } = challenge;
+  const now = nowSeconds();
+  if (!timeBounds || timeBounds.maxTime === '0') {
+    reject('it has no expiry.');
+  } else if (
+    now < Number(timeBounds.minTime) - CLOCK_SKEW_SECONDS ||
+    now > Number(timeBounds.maxTime) + CLOCK_SKEW_SECONDS
+  ) {
+    reject('it is expired or not yet valid.');
+  }
+
+  const [first, ...rest] = challenge.operations;
+  if (!first || first.type !== 'manageData') {
+    reject('its first operation is not a manageData operation.');
+  } else {
+    if (first.source !== account) {
+      reject('it is for a different account.');
+    }
+    if (first.name !== `${config.homeDomain} auth`) {
+      reject(`it was issued for ${first.name.replace(/ auth$/, '')}, not ${config.homeDomain}.`);
+    }
+  }
+
+  const webAuthDomain = new URL(config.endpoint).host;
+  rest.forEach((operation) => {
+    if (operation.type !== 'manageData') {
+      reject(`it contains a ${operation.type} operation.`);
+      return;
+    }
+    if (operation.name === 'client_domain') {
+      return;
+    }
+    if (operation.source !== config.signingKey) {
+      reject('an additional operation is not sourced from the server.');
+    }
+    if (operation.name === 'web_auth_domain' && operation.value?.toString() !== webAuthDomain) {
+      reject(`its web_auth_domain does not match ${webAuthDomain}.`);
+    }
+  });
+
+  if (!WebAuth.verifyTxSignedBy(challenge, config.signingKey)) {
+    reject('it is not signed by the server.');
+  }
+
+  return challenge;
+};
+
+const expiryOf = (token: string): number => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    if (typeof exp === 'number') {
+      return exp;
+    }
+  } catch {
+    /* opaque token; fall back to the default lifetime */
+  }
+  return nowSeconds() + DEFAULT_TOKEN_LIFETIME_SECONDS;
+};
+
+const requestJson = async <T>(url: string, init: RequestInit, action: string): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.text();
+  if (!response.ok) {
+    throw new NetworkError(`${action} failed (HTTP ${response.status}).`, response.status, body);
+  }
+  return JSON.parse(body) as T;
+};
+
+/** Runs the full challenge/response exchange, bypassing the token cache. */
+export const authenticate = async (
+  network: NetworkProfile,
+  signer: Signer,
+  config: WebAuthConfig
+): Promise<AuthToken> => {
+  const { transaction } = await requestJson<{ transaction: string }>(
+    `${config.endpoint}?account=${encodeURIComponent(signer.publicKey)}`,
+    {},
+    'Requesting the login challenge'
+  );
+  validateChallenge(network, transaction, config, signer.publicKey);
+
+  const signed = await signer.signTransaction(transaction, network.passphrase);
+  const { token } = await requestJson<{ token: string }>(
+    config.endpoint,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ transaction: signed })
+    },
+    `Signing in to ${config.homeDomain}`
+  );
+  return { token, expiresAt: expiryOf(token) };
+};
+
+/**
+ * JWT for `homeDomain`, reusing a cached one while it is still valid. The
+ * signer is only asked to sign when a fresh login is needed.
+ */
+export const getAuthToken = async (
+  network: NetworkProfile,
+  signer: Signer,
+  homeDomain: string
+): Promise<string> => {
+  const key = cacheKey(network, homeDomain, signer.publicKey);
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_SECONDS > nowSeconds()) {
+    return cached.token;
+  }
+
+  const config = await resolveWebAuthConfig(network, homeDomain);
+  const fresh = await authenticate(network, signer, config);
+  tokenCache.set(key, fresh);
+  return fresh.token;
+};
+
+/** Drops a token the service rejected, so the next call logs in again. */
+export const forgetAuthToken = (network: NetworkProfile, homeDomain: string, account: string) => {
+  tokenCache.delete(cacheKey(network, homeDomain, account));
+};
+
+/** Drops every cached token, e.g. when the wallet is locked. */
+export const clearAuthTokens = () => {
+  tokenCache.clear();
+};
@@ -0,0 +1,330 @@
+/**
+ * Yield history for Blend positions. Pool snapshots only tell us what the
+ * position is worth now, so we keep a local log per network and account:
+ * - periodic snapshots of each pool's `PositionsEstimate` and per-reserve
+ *   positions and rates;
+ * - every supply/withdraw/borrow/repay we submit ourselves.
+ *
+ * Earnings on a reserve are the change in the net position since the first
+ * snapshot, minus what we moved in or out since then. Anything done outside
+ * this app (another wallet, liquidations) is indistinguishable from interest.
+ * Flows of a submission that timed out are held back until it is confirmed.
+ */
+
+import { POOL_ACTIONS, PoolAction } from './blendRequests';
+import type { NetworkProfile } from './networks';
+import type { PoolRegistryEntry, ReserveInfo } from './poolRegistry';
+
+export type ReserveSnapshot = {
+  assetId: string;
+  symbol: string;
+  /** Supplied plus collateral minus liabilities, in tokens. */
+  position: number;
+  supplyApy: number;
+  /** Oracle price, in the oracle's base currency, at the time of the snapshot. */
+  price?: number;
+};
+
+export type YieldSnapshot = {
+  poolId: string;
+  /** Milliseconds since the epoch. */
+  at: number;
+  /** `PositionsEstimate` totals, in the pool oracle's base currency. */
+  totalSupplied: number;
+  totalBorrowed: number;
+  netApy: number;
+  supplyApy: number;
+  reserves: ReserveSnapshot[];
+};
+
+export type PoolFlow = {
+  poolId: string;
+  at: number;
+  assetId: string;
+  /** Tokens moved into the pool (positive) or out of it (negative). */
+  amount: number;
+};
+
+/** Flows of a submission whose outcome is not known yet. */
+export type PendingPoolFlows = {
+  hash: string;
+  submittedAt: number;
+  expiresAt?: number;
+  flows: PoolFlow[];
+};
+
+export type YieldLog = {
+  snapshots: YieldSnapshot[];
+  flows: PoolFlow[];
+  pending: PendingPoolFlows[];
+};
+
+export type ReserveEarnings = {
+  assetId: string;
+  symbol: string;
+  /** Net position at the first snapshot. */
+  opening: number;
+  current: number;
+  /** Tokens we moved in (or out, if negative) since the first snapshot. */
+  netDeposits: number;
+  earned: number;
+  /** Earnings valued at the latest oracle price (oracle base currency), when known. */
+  earnedValue?: number;
+};
+
+export type PoolEarnings = {
+  poolId: string;
+  since: number;
+  reserves: ReserveEarnings[];
+  /** Sum of `earnedValue` over reserves with a price. */
+  totalEarnedValue: number;
+};
+
+/** One snapshot per pool per hour is plenty for a daily-compounding position. */
+export const SNAPSHOT_INTERVAL_MS = 60 * 60_000;
+
+/** Oldest snapshots are dropped beyond this many per pool to bound localStorage use. */
+const MAX_SNAPSHOTS_PER_POOL = 1000;
+
+export const EMPTY_YIELD_LOG: YieldLog = { snapshots: [], flows: [], pending: [] };
+
+const storageKey = (network: NetworkProfile, accountId: string) =>
+  `supercetes.yield.${network.id}.${accountId}`;
+
+export const loadYieldLog = (network: NetworkProfile, accountId: string): YieldLog => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(network, accountId));
+    if (!stored) {
+      return EMPTY_YIELD_LOG;
+    }
+    const parsed = JSON.parse(stored) as Partial<YieldLog>;
+    return {
+      snapshots: parsed.snapshots ?? [],
+      flows: parsed.flows ?? [],
+      pending: parsed.pending ?? []
+    };
+  } catch {
+    return EMPTY_YIELD_LOG;
+  }
+};
+
+const persistYieldLog = (network: NetworkProfile, accountId: string, log: YieldLog): void => {
+  try {
+    window.localStorage.setItem(storageKey(network, accountId), JSON.stringify(log));
+  } catch (err) {
+    console.warn('Unable to save yield history', err);
+  }
+};
+
+const snapshotOf = (entry: PoolRegistryEntry, at: number): YieldSnapshot | null => {
+  const snapshot = entry.snapshot;
+  if (!snapshot) {
+    return null;
+  }
+  const { pool, poolOracle, poolUser, userEstimate } = snapshot;
+
+  return {
+    poolId: entry.id,
+    at,
+    totalSupplied: userEstimate.totalSupplied,
+    totalBorrowed: userEstimate.totalBorrowed,
+    netApy: userEstimate.netApy,
+    supplyApy: userEstimate.supplyApy,
+    reserves: entry.reserves.flatMap((info) => {
+      const reserve = pool.reserves.get(info.assetId);
+      if (!reserve) {
+        return [];
+      }
+      return [
+        {
+          assetId: info.assetId,
+          symbol: info.symbol,
+          position:
+            poolUser.getSupplyFloat(reserve) +
+            poolUser.getCollateralFloat(reserve) -
+            poolUser.getLiabilitiesFloat(reserve),
+          supplyApy: info.supplyApy,
+          price: poolOracle.getPriceFloat(info.assetId)
+        }
+      ];
+    })
+  };
+};
+
+const latestSnapshot = (log: YieldLog, poolId: string): YieldSnapshot | undefined => {
+  for (let i = log.snapshots.length - 1; i >= 0; i -= 1) {
+    if (log.snapshots[i].poolId === poolId) {
+      return log.snapshots[i];
+    }
+  }
+  return undefined;
+};
+
+const trimSnapshots = (snapshots: YieldSnapshot[]): YieldSnapshot[] => {
+  const counts = new Map<string, number>();
+  // Walk newest first so the most recent snapshots are the ones kept.
+  return snapshots
+    .slice()
+    .reverse()
+    .filter((snapshot) => {
+      const count = (counts.get(snapshot.poolId) ?? 0) + 1;
+      counts.set(snapshot.poolId, count);
+      return count <= MAX_SNAPSHOTS_PER_POOL;
+    })
+    .reverse();
+};
+
+/**
+ * Adds a snapshot for every loaded pool whose last one is older than
+ * `SNAPSHOT_INTERVAL_MS`, or for any pool when `force` is set (e.g. right
+ * after we changed the position). Returns the updated log.
+ */
+export const recordYieldSnapshots = (
+  network: NetworkProfile,
+  accountId: string,
+  pools: PoolRegistryEntry[],
+  force = false,
+  now = Date.now()
+): YieldLog => {
+  const log = loadYieldLog(network, accountId);
+  const added = pools.flatMap((entry) => {
+    const last = latestSnapshot(log, entry.id);
+    if (!force && last && now - last.at < SNAPSHOT_INTERVAL_MS) {
+      return [];
+    }
+    const snapshot = snapshotOf(entry, now);
+    return snapshot ? [snapshot] : [];
+  });
+
+  if (added.length === 0) {
+    return log;
+  }
+  const next = { ...log, snapshots: trimSnapshots([...log.snapshots, ...added]) };
+  persistYieldLog(network, accountId, next);
+  return next;
+};
+
+const flowsOf = (
+  poolId: string,
+  actions: PoolAction[],
+  reserves: Pick<ReserveInfo, 'assetId' | 'decimals'>[],
+  at: number
+): PoolFlow[] =>
+  actions.map((action): PoolFlow => {
+    const decimals = reserves.find((reserve) => reserve.assetId === action.asset)?.decimals ?? 7;
+    const tokens = Number(action.amount) / 10 ** decimals;
+    return {
+      poolId,
+      at,
+      assetId: action.asset,
+      amount: POOL_ACTIONS[action.type].flow === 'toPool' ? tokens : -tokens
+    };
+  });
+
+/** Records the token flows of a successful pool submission. */
+export const recordPoolFlows = (
+  network: NetworkProfile,
+  accountId: string,
+  poolId: string,
+  actions: PoolAction[],
+  reserves: Pick<ReserveInfo, 'assetId' | 'decimals'>[],
+  now = Date.now()
+): YieldLog => {
+  const log = loadYieldLog(network, accountId);
+  const next = { ...log, flows: [...log.flows, ...flowsOf(poolId, actions, reserves, now)] };
+  persistYieldLog(network, accountId, next);
+  return next;
+};
+
+/**
+ * Holds the flows of a pool submission that timed out until
+ * `settlePendingPoolFlows` learns whether it landed.
+ */
+export const recordPendingPoolFlows = (
+  network: NetworkProfile,
+  accountId: string,
+  poolId: string,
+  actions: PoolAction[],
+  reserves: Pick<ReserveInfo, 'assetId' | 'decimals'>[],
+  submission: Omit<PendingPoolFlows, 'flows'>
+): YieldLog => {
+  const log = loadYieldLog(network, accountId);
+  const pending = {
+    ...submission,
+    flows: flowsOf(poolId, actions, reserves, submission.submittedAt)
+  };
+  const next = { ...log, pending: [...log.pending, pending] };
+  persistYieldLog(network, accountId, next);
+  return next;
+};
+
+/** Counts the held flows of `hash` when it `landed`, or drops them. */
+export const settlePendingPoolFlows = (
+  network: NetworkProfile,
+  accountId: string,
+  hash: string,
+  landed: boolean
+): YieldLog => {
+  const log = loadYieldLog(network, accountId);
+  const settled = log.pending.filter((entry) => entry.hash === hash);
+  if (settled.length === 0) {
+    return log;
+  }
+  const next = {
+    ...log,
+    flows: landed ? [...log.flows, ...settled.flatMap((entry) => entry.flows)] : log.flows,
+    pending: log.pending.filter((entry) => entry.hash !== hash)
+  };
+  persistYieldLog(network, accountId, next);
+  return next;
+};
+
+export const poolSnapshots = (log: YieldLog, poolId: string): YieldSnapshot[] =>
+  log.snapshots.filter((snapshot) => snapshot.poolId === poolId);
+
+/** Earnings per reserve since the pool's first snapshot, or `null` without two snapshots. */
+export const computePoolEarnings = (log: YieldLog, poolId: string): PoolEarnings | null => {
+  const snapshots = poolSnapshots(log, poolId);
+  if (snapshots.length < 2) {
+    return null;
+  }
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const flows = log.flows.filter(
+    (flow) => flow.poolId === poolId && flow.at > first.at && flow.at <= last.at
+  );
+
+  const reserves = last.reserves.map((reserve): ReserveEarnings => {
+    const opening = first.reserves.find((entry) => entry.assetId === reserve.assetId)?.position ?? 0;
+    const netDeposits = flows
+      .filter((flow) => flow.assetId === reserve.assetId)
+      .reduce((sum, flow) => sum + flow.amount, 0);
+    const earned = reserve.position - opening - netDeposits;
+    return {
+      assetId: reserve.assetId,
+      symbol: reserve.symbol,
+      opening,
+      current: reserve.position,
+      netDeposits,
+      earned,
+      earnedValue: reserve.price === undefined ? undefined : earned * reserve.price
+    };
+  });
+
+  return {
+    poolId,
+    since: first.at,
+    reserves: reserves.filter(
+      (reserve) => reserve.opening !== 0 || reserve.current !== 0 || reserve.netDeposits !== 0
+    ),
+    totalEarnedValue: reserves.reduce((sum, reserve) => sum + (reserve.earnedValue ?? 0), 0)
+  };
+};
+
+export const clearYieldLog = (network: NetworkProfile, accountId: string): void => {
+  try {
+    window.localStorage.removeItem(storageKey(network, accountId));
+  } catch {
+    /* nothing to clear when storage is unavailable */
+  }
+};